@@ -7,11 +7,25 @@ import { AuthProvider } from "./contexts/auth-context";
 import { PresentationProvider } from "./contexts/presentation-context";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
+import Sessions from "@/pages/sessions";
+import SessionDetail from "@/pages/session-detail";
+import Leaderboard from "@/pages/leaderboard";
+import LeaderboardDisplay from "@/pages/leaderboard-display";
+import Grades from "@/pages/grades";
+import MyFeedback from "@/pages/my-feedback";
+import Present from "@/pages/present";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/sessions" component={Sessions} />
+      <Route path="/sessions/:id" component={SessionDetail} />
+      <Route path="/leaderboard" component={Leaderboard} />
+      <Route path="/leaderboard/display" component={LeaderboardDisplay} />
+      <Route path="/grades" component={Grades} />
+      <Route path="/my-feedback" component={MyFeedback} />
+      <Route path="/present" component={Present} />
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
@@ -1,13 +1,15 @@
-import { useState, useEffect, useRef } from "react";
+import { Fragment, useState, useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { usePresentation } from "@/contexts/presentation-context";
-import { useAuth } from "@/contexts/auth-context";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { TeamForm } from "@/components/forms/team-form";
-import { useSocket, wsUrl } from "@/lib/socket";
-import { X, Download, Play, Pause, RefreshCw, Upload, Clipboard } from "lucide-react";
+import { RubricForm } from "@/components/forms/rubric-form";
+import { FeedbackEditor } from "@/components/feedback-editor";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { X, Download, Play, Pause, RefreshCw, Upload, Clipboard, Pencil, Plus, Trash2 } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -31,7 +33,16 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import type { Team } from "@shared/schema";
+import { Checkbox } from "@/components/ui/checkbox";
+import { formatScaleRange } from "@shared/scoring";
+import { describeFeedbackSource } from "@shared/feedback";
+import type {
+  EventSettings,
+  RosterStudent,
+  Rubric,
+  RubricForm as RubricFormValues,
+  Team
+} from "@shared/schema";
 
 interface AdminModalsProps {
   teamUploadOpen: boolean;
@@ -40,6 +51,10 @@ interface AdminModalsProps {
   setPresentationControlOpen: (open: boolean) => void;
   feedbackSummaryOpen: boolean;
   setFeedbackSummaryOpen: (open: boolean) => void;
+  rubricManagerOpen: boolean;
+  setRubricManagerOpen: (open: boolean) => void;
+  rosterOpen: boolean;
+  setRosterOpen: (open: boolean) => void;
 }
 
 export function AdminModals({
@@ -49,12 +64,18 @@ export function AdminModals({
   setPresentationControlOpen,
   feedbackSummaryOpen,
   setFeedbackSummaryOpen,
+  rubricManagerOpen,
+  setRubricManagerOpen,
+  rosterOpen,
+  setRosterOpen,
 }: AdminModalsProps) {
   return (
     <>
       <TeamUploadModal open={teamUploadOpen} setOpen={setTeamUploadOpen} />
       <PresentationControlModal open={presentationControlOpen} setOpen={setPresentationControlOpen} />
       <FeedbackSummaryModal open={feedbackSummaryOpen} setOpen={setFeedbackSummaryOpen} />
+      <RubricManagerModal open={rubricManagerOpen} setOpen={setRubricManagerOpen} />
+      <RosterModal open={rosterOpen} setOpen={setRosterOpen} />
     </>
   );
 }
@@ -335,17 +356,40 @@ function PresentationControlModal({ open, setOpen }: { open: boolean; setOpen: (
     peers,
     startScreenShare,
     stopScreenShare,
-    isScreenSharing
+    isScreenSharing,
+    startEvaluation,
+    room,
+    activeRubric
   } = usePresentation();
   
-  // Socket for sending evaluation commands
-  const { user } = useAuth();
-  const socketUrl = user && user.id ? `${wsUrl}?sessionId=${user.id}` : '';
-  const [socket, connected] = useSocket(socketUrl);
-  
   const [selectedTeamId, setSelectedTeamId] = useState<string>("");
+  const [selectedRubricId, setSelectedRubricId] = useState<string>("");
   const [teams, setTeams] = useState<Team[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+
+  const { data: rubrics = [] } = useQuery<Rubric[]>({
+    queryKey: ["/api/rubrics"],
+    enabled: open,
+  });
+
+  const { data: settings } = useQuery<EventSettings>({
+    queryKey: ["/api/settings"],
+    enabled: open,
+  });
+
+  const handleSelfAssessmentChange = async (allowSelfAssessment: boolean) => {
+    try {
+      await apiRequest("PUT", "/api/settings", { allowSelfAssessment });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    } catch (error) {
+      console.error("Self-assessment setting error:", error);
+      toast({
+        title: "Failed to update setting",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
   
   // Format timer as MM:SS
   const formatTime = (seconds: number) => {
@@ -369,6 +413,16 @@ function PresentationControlModal({ open, setOpen }: { open: boolean; setOpen: (
       setSelectedTeamId("");
     }
   }, [activeTeam]);
+
+  // Follow the live session's rubric, otherwise preselect the default one
+  useEffect(() => {
+    if (activeRubric) {
+      setSelectedRubricId(activeRubric.id.toString());
+    } else {
+      const defaultRubric = rubrics.find(rubric => rubric.isDefault);
+      setSelectedRubricId(defaultRubric ? defaultRubric.id.toString() : "");
+    }
+  }, [activeRubric, rubrics]);
   
   const fetchTeams = async () => {
     try {
@@ -405,7 +459,10 @@ function PresentationControlModal({ open, setOpen }: { open: boolean; setOpen: (
       setIsLoading(true);
       
       // First start the presentation session
-      await startPresentation(Number(selectedTeamId));
+      await startPresentation(
+        Number(selectedTeamId),
+        selectedRubricId ? Number(selectedRubricId) : undefined
+      );
       
       // Then attempt to start screen sharing
       try {
@@ -479,110 +536,13 @@ function PresentationControlModal({ open, setOpen }: { open: boolean; setOpen: (
   };
   
   const handleStartEvaluation = () => {
-    if (!activeSession || !activeTeam) {
-      toast({
-        title: "No active presentation",
-        description: "There is no active presentation session to evaluate",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    if (!socket || !connected) {
-      toast({
-        title: "Not connected to server",
-        description: "Could not start evaluation as the server connection is not available",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    try {
-      // Send message to notify all peers to start their evaluation
-      if (socket.readyState === WebSocket.OPEN) {
-        socket.send(JSON.stringify({
-          type: "start_evaluation",
-          payload: {
-            teamId: activeTeam.id,
-            teamName: activeTeam.name,
-            projectTitle: activeTeam.projectTitle
-          }
-        }));
-        
-        toast({
-          title: "Evaluation started",
-          description: "All peers have been notified to start their evaluations",
-        });
-      } else {
-        toast({
-          title: "Connection error",
-          description: "WebSocket connection not open. Please try again.",
-          variant: "destructive",
-        });
-      }
-    } catch (error) {
-      console.error("Evaluation start error:", error);
-      toast({
-        title: "Failed to start evaluation",
-        description: error instanceof Error ? error.message : "An unexpected error occurred",
-        variant: "destructive",
-      });
-    }
+    startEvaluation();
   };
   
   const handleDownloadResults = () => {
-    // Create a CSV with evaluation results
-    const headers = [
-      "Team", 
-      "Peer", 
-      "Technical Content", 
-      "Presentation Skills", 
-      "Project Demo", 
-      "Overall", 
-      "Positive Points", 
-      "Negative Points"
-    ];
-    
-    const rows = evaluations.map(evaluation => [
-      activeTeam?.name || "",
-      `Peer ${evaluation.peerId}`, // Using ID as we don't store peer names with evaluations
-      evaluation.technicalContent.toString(),
-      evaluation.presentationSkills.toString(),
-      evaluation.projectDemo.toString(),
-      ((evaluation.technicalContent + evaluation.presentationSkills + evaluation.projectDemo) / 3).toFixed(1),
-      `"${evaluation.positivePoints || ""}"`,
-      `"${evaluation.negativePoints || ""}"`
-    ]);
-    
-    // Add average row
-    if (averageScores) {
-      rows.push([
-        activeTeam?.name || "",
-        "AVERAGE",
-        averageScores.technicalContent.toFixed(1),
-        averageScores.presentationSkills.toFixed(1),
-        averageScores.projectDemo.toFixed(1),
-        averageScores.overall.toFixed(1),
-        "",
-        ""
-      ]);
+    if (activeSession) {
+      window.location.href = `/api/sessions/${activeSession.id}/results.csv`;
     }
-    
-    const csvContent = [
-      headers.join(","),
-      ...rows.map(row => row.join(","))
-    ].join("\n");
-    
-    // Create a download link
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", `${activeTeam?.name}_evaluation_results.csv`);
-    link.style.visibility = "hidden";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
   };
 
   return (
@@ -591,7 +551,9 @@ function PresentationControlModal({ open, setOpen }: { open: boolean; setOpen: (
         <DialogHeader>
           <DialogTitle>Control Presentation</DialogTitle>
           <DialogDescription>
-            Manage the current presentation session
+            {room
+              ? `Manage the presentation session in ${room.name} (code ${room.code})`
+              : "Open a room from the home page before starting a presentation"}
           </DialogDescription>
         </DialogHeader>
         
@@ -616,6 +578,38 @@ function PresentationControlModal({ open, setOpen }: { open: boolean; setOpen: (
               </SelectContent>
             </Select>
           </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Rubric</label>
+            <Select
+              value={selectedRubricId}
+              onValueChange={setSelectedRubricId}
+              disabled={isLoading || !!activeSession}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="-- Default rubric --" />
+              </SelectTrigger>
+              <SelectContent>
+                {rubrics.map(rubric => (
+                  <SelectItem key={rubric.id} value={rubric.id.toString()}>
+                    {rubric.name} ({rubric.criteria.length} criteria){rubric.isDefault ? " · default" : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="allow-self-assessment"
+              checked={settings?.allowSelfAssessment ?? false}
+              onCheckedChange={(checked) => handleSelfAssessmentChange(checked === true)}
+              disabled={!settings}
+            />
+            <label htmlFor="allow-self-assessment" className="text-sm">
+              Let presenting members submit a self-assessment (kept separate from peer scores)
+            </label>
+          </div>
           
           <div className="space-y-2">
             <label className="text-sm font-medium">Presentation Timer</label>
@@ -760,13 +754,15 @@ function PresentationControlModal({ open, setOpen }: { open: boolean; setOpen: (
             <div className="border-t border-border pt-4">
               <h3 className="text-sm font-medium mb-2">Quick Results (Current Team)</h3>
               <div className="text-sm grid grid-cols-2 gap-2">
-                <div>Technical Content:</div>
-                <div className="font-medium">{averageScores.technicalContent.toFixed(1)}/10</div>
-                <div>Presentation Skills:</div>
-                <div className="font-medium">{averageScores.presentationSkills.toFixed(1)}/10</div>
-                <div>Project Demo:</div>
-                <div className="font-medium">{averageScores.projectDemo.toFixed(1)}/10</div>
-                <div>Overall Average:</div>
+                {activeRubric?.criteria.map(criterion => (
+                  <Fragment key={criterion.key}>
+                    <div>{criterion.label}:</div>
+                    <div className="font-medium">
+                      {(averageScores.criteria[criterion.key] ?? 0).toFixed(1)}/{criterion.maxScore}
+                    </div>
+                  </Fragment>
+                ))}
+                <div>Weighted Overall:</div>
                 <div className="font-medium">{averageScores.overall.toFixed(1)}/10</div>
               </div>
             </div>
@@ -795,7 +791,7 @@ function PresentationControlModal({ open, setOpen }: { open: boolean; setOpen: (
               <Button
                 variant="default"
                 onClick={handleStartPresentation}
-                disabled={isLoading || !selectedTeamId}
+                disabled={isLoading || !selectedTeamId || !room}
               >
                 Start Presentation
               </Button>
@@ -809,62 +805,34 @@ function PresentationControlModal({ open, setOpen }: { open: boolean; setOpen: (
 
 // Feedback Summary Modal
 function FeedbackSummaryModal({ open, setOpen }: { open: boolean; setOpen: (open: boolean) => void }) {
-  const { activeTeam, feedback } = usePresentation();
+  const { feedback, feedbackSessionId } = usePresentation();
   
-  const handleDownloadPDF = () => {
-    // In a real implementation, this would generate a PDF file
-    // For this demo, we'll just show a message
-    alert("In a production environment, this would generate a PDF with the feedback summary.");
-  };
-  
-  if (!activeTeam || !feedback) {
+  if (!feedback || feedbackSessionId === null) {
     return null;
   }
   
+  const source = describeFeedbackSource(feedback.provider);
+  
   return (
     <Dialog open={open} onOpenChange={setOpen}>
-      <DialogContent className="sm:max-w-2xl">
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>AI-Generated Feedback Summary</DialogTitle>
+          <DialogTitle>{source.title}</DialogTitle>
           <DialogDescription>
-            Synthesized feedback based on peer evaluations
+            {source.description} · {feedback.provider} ({feedback.model}). Review and publish it
+            before the presenting team can see it.
           </DialogDescription>
         </DialogHeader>
         
         <div className="space-y-4 my-2">
-          <Card className="bg-background">
-            <CardHeader>
-              <CardTitle>{activeTeam.name}: {activeTeam.projectTitle}</CardTitle>
-              <div className="mb-2">
-                <span className="text-sm font-medium">Overall Score: </span>
-                <span className="text-lg font-medium">{feedback.overallScore / 10}/10</span>
-              </div>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div>
-                <h4 className="text-sm font-medium text-secondary mb-1">Strengths</h4>
-                <ul className="list-disc pl-6 mb-4 text-sm">
-                  {feedback.strengths.map((strength, index) => (
-                    <li key={index}>{strength}</li>
-                  ))}
-                </ul>
-              </div>
-              
-              <div>
-                <h4 className="text-sm font-medium text-accent mb-1">Areas for Improvement</h4>
-                <ul className="list-disc pl-6 text-sm">
-                  {feedback.improvements.map((improvement, index) => (
-                    <li key={index}>{improvement}</li>
-                  ))}
-                </ul>
-              </div>
-            </CardContent>
-          </Card>
+          <FeedbackEditor sessionId={feedbackSessionId} />
           
           <div className="flex justify-end">
-            <Button onClick={handleDownloadPDF}>
-              <Download className="h-4 w-4 mr-1" />
-              Download PDF
+            <Button variant="outline" asChild>
+              <a href={`/api/sessions/${feedbackSessionId}/report.pdf`} download>
+                <Download className="h-4 w-4 mr-1" />
+                Download PDF
+              </a>
             </Button>
           </div>
         </div>
@@ -872,3 +840,309 @@ function FeedbackSummaryModal({ open, setOpen }: { open: boolean; setOpen: (open
     </Dialog>
   );
 }
+
+// Rubric Manager Modal
+function RubricManagerModal({ open, setOpen }: { open: boolean; setOpen: (open: boolean) => void }) {
+  const { toast } = useToast();
+  // null lists the rubrics, "new" shows an empty form, otherwise the rubric being edited
+  const [editing, setEditing] = useState<Rubric | "new" | null>(null);
+
+  const { data: rubrics = [] } = useQuery<Rubric[]>({
+    queryKey: ["/api/rubrics"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!open) {
+      setEditing(null);
+    }
+  }, [open]);
+
+  const handleSave = async (values: RubricFormValues) => {
+    try {
+      if (editing && editing !== "new") {
+        await apiRequest("PUT", `/api/rubrics/${editing.id}`, values);
+      } else {
+        await apiRequest("POST", "/api/rubrics", values);
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/rubrics"] });
+      setEditing(null);
+
+      toast({
+        title: "Rubric saved",
+        description: `${values.name} is ready to use`,
+      });
+    } catch (error) {
+      console.error("Rubric save error:", error);
+      toast({
+        title: "Failed to save rubric",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {editing === null ? "Rubrics" : editing === "new" ? "New Rubric" : `Edit ${editing.name}`}
+          </DialogTitle>
+          <DialogDescription>
+            Define the criteria peers score presentations on. Criteria of a rubric that has already been used cannot be changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing === null ? (
+          <div className="space-y-3 my-2">
+            {rubrics.map(rubric => (
+              <Card key={rubric.id} className="bg-background">
+                <CardHeader className="pb-2">
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base">
+                      {rubric.name}
+                      {rubric.isDefault && (
+                        <span className="ml-2 text-xs font-normal text-muted-foreground">Default</span>
+                      )}
+                    </CardTitle>
+                    <Button size="sm" variant="ghost" onClick={() => setEditing(rubric)}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="text-sm text-muted-foreground">
+                  {rubric.criteria.map(criterion => (
+                    <div key={criterion.key} className="flex justify-between">
+                      <span>{criterion.label}</span>
+                      <span>{formatScaleRange(criterion)} · weight {criterion.weight}</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+
+            <DialogFooter>
+              <Button onClick={() => setEditing("new")}>
+                <Plus className="h-4 w-4 mr-1" />
+                New Rubric
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <RubricForm
+            key={editing === "new" ? "new" : editing.id}
+            rubric={editing === "new" ? undefined : editing}
+            onSubmit={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Roster Modal
+function RosterModal({ open, setOpen }: { open: boolean; setOpen: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [importText, setImportText] = useState<string>("");
+  const [joinPin, setJoinPin] = useState<string>("");
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: roster = [] } = useQuery<RosterStudent[]>({
+    queryKey: ["/api/roster"],
+    enabled: open,
+  });
+
+  const { data: settings } = useQuery<EventSettings>({
+    queryKey: ["/api/settings"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    setJoinPin(settings?.joinPin ?? "");
+  }, [settings]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      setImportText(event.target?.result as string);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleImport = async () => {
+    try {
+      setIsSaving(true);
+
+      // One student per line: Name, USN (a header row is skipped)
+      const students = importText
+        .trim()
+        .split('\n')
+        .map(line => line.split(',').map(col => col.trim()))
+        .filter(columns => columns.length >= 2 && columns[0] && columns[1])
+        .filter(columns => !(columns[0].toLowerCase() === "name" && columns[1].toLowerCase() === "usn"))
+        .map(([name, usn]) => ({ name, usn }));
+
+      if (students.length === 0) {
+        throw new Error("No valid students found in the provided data");
+      }
+
+      await apiRequest("POST", "/api/roster", { students });
+      queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
+      setImportText("");
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+
+      toast({
+        title: "Roster updated",
+        description: `${students.length} students have been imported.`,
+      });
+    } catch (error) {
+      console.error("Roster import error:", error);
+      toast({
+        title: "Failed to import roster",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (student: RosterStudent) => {
+    try {
+      await apiRequest("DELETE", `/api/roster/${student.id}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/roster"] });
+    } catch (error) {
+      console.error("Roster delete error:", error);
+      toast({
+        title: "Failed to remove student",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSavePin = async (pin: string | null) => {
+    try {
+      setIsSaving(true);
+      await apiRequest("PUT", "/api/settings", { joinPin: pin });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+
+      toast({
+        title: pin ? "Join PIN set" : "Join PIN removed",
+        description: pin ? "Peers must enter this PIN to log in." : "Peers can log in without a PIN.",
+      });
+    } catch (error) {
+      console.error("Join PIN error:", error);
+      toast({
+        title: "Failed to update join PIN",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Student Roster</DialogTitle>
+          <DialogDescription>
+            Only students on the roster can log in as peers. Uploaded team members are added automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 my-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Join PIN</label>
+            <div className="flex space-x-2">
+              <Input
+                placeholder="No PIN required"
+                inputMode="numeric"
+                value={joinPin}
+                onChange={(e) => setJoinPin(e.target.value)}
+              />
+              <Button
+                onClick={() => handleSavePin(joinPin.trim() || null)}
+                disabled={isSaving || joinPin.trim() === (settings?.joinPin ?? "")}
+              >
+                Save
+              </Button>
+              {settings?.joinPin && (
+                <Button variant="outline" onClick={() => handleSavePin(null)} disabled={isSaving}>
+                  Clear
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Optional 4-8 digit PIN that peers must enter next to their name and USN
+            </p>
+          </div>
+
+          <div className="space-y-2 border-t border-border pt-4">
+            <label className="text-sm font-medium">Import Students</label>
+            <Input
+              type="file"
+              accept=".csv"
+              ref={fileInputRef}
+              onChange={handleFileChange}
+            />
+            <Textarea
+              placeholder="Name, USN (one student per line)"
+              className="h-24 resize-none"
+              value={importText}
+              onChange={(e) => setImportText(e.target.value)}
+            />
+            <div className="flex justify-end">
+              <Button onClick={handleImport} disabled={isSaving || !importText.trim()}>
+                <Upload className="h-4 w-4 mr-1" />
+                {isSaving ? "Importing..." : "Import"}
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2 border-t border-border pt-4">
+            <label className="text-sm font-medium">On the Roster ({roster.length})</label>
+            {roster.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No students yet. Upload teams or import a roster so peers can log in.
+              </p>
+            ) : (
+              <div className="max-h-60 overflow-y-auto divide-y divide-border text-sm">
+                {roster.map(student => (
+                  <div key={student.id} className="flex items-center justify-between py-1">
+                    <span>{student.name}</span>
+                    <div className="flex items-center">
+                      <span className="font-mono text-muted-foreground mr-2">{student.usn}</span>
+                      <Button size="icon" variant="ghost" onClick={() => handleRemove(student)}>
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Remove</span>
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="outline">Close</Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,61 @@
+import type { ReactNode } from "react";
+import { Link, Redirect } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import { useAuth } from "@/contexts/auth-context";
+import { Header } from "@/components/header";
+import { LoginModal } from "@/components/login-modal";
+import { Button } from "@/components/ui/button";
+
+interface AdminPageProps {
+  title: string;
+  // Where the back button leads, the admin home by default
+  backHref?: string;
+  actions?: ReactNode;
+  children: ReactNode;
+}
+
+// Layout for standalone admin pages; peers are sent back to the home page
+export function AdminPage({ title, backHref = "/", actions, children }: AdminPageProps) {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <LoginModal />;
+  }
+
+  if (!user.isAdmin) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow flex flex-col p-6">
+        <div className="flex flex-col space-y-6 max-w-5xl mx-auto w-full">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="icon" asChild>
+                <Link href={backHref}>
+                  <ArrowLeft className="h-4 w-4" />
+                  <span className="sr-only">Back</span>
+                </Link>
+              </Button>
+              <h2 className="text-xl font-semibold">{title}</h2>
+            </div>
+            {actions}
+          </div>
+
+          {children}
+        </div>
+      </main>
+    </div>
+  );
+}
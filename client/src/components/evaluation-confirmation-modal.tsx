@@ -1,3 +1,4 @@
+import { Fragment } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -8,27 +9,27 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Card, CardContent } from "@/components/ui/card";
+import { weightedOverall } from "@shared/scoring";
+import type { RubricCriterion } from "@shared/schema";
 
 interface EvaluationConfirmationModalProps {
   open: boolean;
   setOpen: (open: boolean) => void;
+  criteria: RubricCriterion[];
   evaluation: {
-    technicalContent: number;
-    presentationSkills: number;
-    projectDemo: number;
+    scores: Record<string, number>;
   } | null;
 }
 
 export function EvaluationConfirmationModal({
   open,
   setOpen,
+  criteria,
   evaluation,
 }: EvaluationConfirmationModalProps) {
   if (!evaluation) return null;
 
-  const overallScore = (
-    (evaluation.technicalContent + evaluation.presentationSkills + evaluation.projectDemo) / 3
-  ).toFixed(1);
+  const overallScore = weightedOverall(criteria, evaluation.scores).toFixed(1);
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -47,12 +48,14 @@ export function EvaluationConfirmationModal({
           <CardContent className="pt-6">
             <h3 className="font-medium mb-2">Your Ratings</h3>
             <div className="grid grid-cols-2 gap-1 text-sm">
-              <div>Technical Content:</div>
-              <div className="font-medium">{evaluation.technicalContent}/10</div>
-              <div>Presentation Skills:</div>
-              <div className="font-medium">{evaluation.presentationSkills}/10</div>
-              <div>Project Demo:</div>
-              <div className="font-medium">{evaluation.projectDemo}/10</div>
+              {criteria.map(criterion => (
+                <Fragment key={criterion.key}>
+                  <div>{criterion.label}:</div>
+                  <div className="font-medium">
+                    {evaluation.scores[criterion.key]}/{criterion.maxScore}
+                  </div>
+                </Fragment>
+              ))}
               <div className="font-medium pt-1">Overall Score:</div>
               <div className="font-medium pt-1">{overallScore}/10</div>
             </div>
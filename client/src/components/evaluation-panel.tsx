@@ -1,12 +1,12 @@
-import { useState } from "react";
+import { useEffect, useMemo } from "react";
 import { usePresentation } from "@/contexts/presentation-context";
-import { useAuth } from "@/contexts/auth-context";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -14,44 +14,49 @@ import {
 } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { evaluationFormSchema } from "@shared/schema";
-import { z } from "zod";
-
-type EvaluationFormValues = z.infer<typeof evaluationFormSchema>;
+import { buildEvaluationFormSchema, type EvaluationForm } from "@shared/schema";
+import { formatScaleRange } from "@shared/scoring";
 
 export function EvaluationPanel() {
   const { toast } = useToast();
-  const { user } = useAuth();
   const { 
     activeTeam, 
     activeSession, 
+    activeRubric,
     submitEvaluation, 
-    hasSubmittedEvaluation 
+    hasSubmittedEvaluation,
+    isSubmittingEvaluation,
+    isPresenting,
+    allowSelfAssessment
   } = usePresentation();
   
-  const [selectedRatings, setSelectedRatings] = useState({
-    technicalContent: 0,
-    presentationSkills: 0,
-    projectDemo: 0
-  });
+  const criteria = activeRubric?.criteria ?? [];
+  const evaluationFormSchema = useMemo(
+    () => buildEvaluationFormSchema(criteria),
+    [activeRubric]
+  );
 
-  const form = useForm<EvaluationFormValues>({
+  const form = useForm<EvaluationForm>({
     resolver: zodResolver(evaluationFormSchema),
     defaultValues: {
-      technicalContent: 0,
-      presentationSkills: 0,
-      projectDemo: 0,
+      scores: {},
       positivePoints: "",
       negativePoints: ""
     }
   });
 
-  const handleRatingClick = (category: keyof typeof selectedRatings, value: number) => {
-    setSelectedRatings((prev) => ({ ...prev, [category]: value }));
-    form.setValue(category, value, { shouldValidate: true });
+  // Start from a blank form whenever a new session (and rubric) comes in
+  useEffect(() => {
+    form.reset({ scores: {}, positivePoints: "", negativePoints: "" });
+  }, [activeSession?.id, activeRubric?.id]);
+
+  const selectedScores = form.watch("scores");
+
+  const handleRatingClick = (key: string, value: number) => {
+    form.setValue(`scores.${key}`, value, { shouldValidate: true });
   };
 
-  const onSubmit = async (data: EvaluationFormValues) => {
+  const onSubmit = async (data: EvaluationForm) => {
     if (!activeSession) {
       toast({
         title: "Error",
@@ -64,7 +69,7 @@ export function EvaluationPanel() {
     await submitEvaluation(data);
   };
 
-  if (!activeTeam || !activeSession) {
+  if (!activeTeam || !activeSession || !activeRubric) {
     return (
       <div className="w-full md:w-96 bg-white border-l border-light-gray overflow-y-auto p-4 flex items-center justify-center text-center">
         <div className="p-4">
@@ -77,6 +82,20 @@ export function EvaluationPanel() {
     );
   }
 
+  if (isPresenting && !allowSelfAssessment) {
+    return (
+      <div className="w-full md:w-96 bg-white border-l border-light-gray overflow-y-auto p-4 flex items-center justify-center text-center">
+        <div className="p-4">
+          <div className="text-5xl mb-4">🎤</div>
+          <h2 className="text-lg font-google-sans font-semibold mb-2">You Are Presenting</h2>
+          <p className="text-sm text-muted-foreground">
+            {activeTeam.name} is on stage, so you can't evaluate this presentation. Good luck!
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   if (hasSubmittedEvaluation) {
     return (
       <div className="w-full md:w-96 bg-white border-l border-light-gray overflow-y-auto p-4">
@@ -97,7 +116,15 @@ export function EvaluationPanel() {
   return (
     <div className="w-full md:w-96 bg-white border-l border-light-gray overflow-y-auto">
       <div className="p-4">
-        <h2 className="text-lg font-google-sans font-semibold mb-4">Evaluation Form</h2>
+        <h2 className="text-lg font-google-sans font-semibold mb-4">
+          {isPresenting ? "Self-Assessment" : "Evaluation Form"}
+        </h2>
+        
+        {isPresenting && (
+          <p className="text-sm text-muted-foreground mb-4">
+            You are presenting. Your ratings are kept separate and do not count towards your team's peer score.
+          </p>
+        )}
         
         {/* Team Info */}
         <div className="bg-background rounded-lg p-3 mb-4">
@@ -115,86 +142,40 @@ export function EvaluationPanel() {
         {/* Evaluation Form */}
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            {/* Technical Content (1-10) */}
-            <FormField
-              control={form.control}
-              name="technicalContent"
-              render={() => (
-                <FormItem>
-                  <FormLabel>Technical Content (1-10)</FormLabel>
-                  <div className="flex justify-between gap-1">
-                    {Array.from({ length: 10 }, (_, i) => i + 1).map((rating) => (
-                      <div
-                        key={rating}
-                        className={`rating-circle w-8 h-8 rounded-full flex items-center justify-center border-2 
-                          ${selectedRatings.technicalContent === rating 
-                            ? 'bg-primary text-white border-primary' 
-                            : 'border-primary text-foreground'
-                          }`}
-                        onClick={() => handleRatingClick('technicalContent', rating)}
-                      >
-                        <span className="text-sm">{rating}</span>
-                      </div>
-                    ))}
-                  </div>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            
-            {/* Presentation Skills (1-10) */}
-            <FormField
-              control={form.control}
-              name="presentationSkills"
-              render={() => (
-                <FormItem>
-                  <FormLabel>Presentation Skills (1-10)</FormLabel>
-                  <div className="flex justify-between gap-1">
-                    {Array.from({ length: 10 }, (_, i) => i + 1).map((rating) => (
-                      <div
-                        key={rating}
-                        className={`rating-circle w-8 h-8 rounded-full flex items-center justify-center border-2 
-                          ${selectedRatings.presentationSkills === rating 
-                            ? 'bg-primary text-white border-primary' 
-                            : 'border-primary text-foreground'
-                          }`}
-                        onClick={() => handleRatingClick('presentationSkills', rating)}
-                      >
-                        <span className="text-sm">{rating}</span>
-                      </div>
-                    ))}
-                  </div>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            
-            {/* Project Demo (1-10) */}
-            <FormField
-              control={form.control}
-              name="projectDemo"
-              render={() => (
-                <FormItem>
-                  <FormLabel>Project Demo (1-10)</FormLabel>
-                  <div className="flex justify-between gap-1">
-                    {Array.from({ length: 10 }, (_, i) => i + 1).map((rating) => (
-                      <div
-                        key={rating}
-                        className={`rating-circle w-8 h-8 rounded-full flex items-center justify-center border-2 
-                          ${selectedRatings.projectDemo === rating 
-                            ? 'bg-primary text-white border-primary' 
-                            : 'border-primary text-foreground'
-                          }`}
-                        onClick={() => handleRatingClick('projectDemo', rating)}
-                      >
-                        <span className="text-sm">{rating}</span>
-                      </div>
-                    ))}
-                  </div>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {criteria.map((criterion) => (
+              <FormField
+                key={criterion.key}
+                control={form.control}
+                name={`scores.${criterion.key}`}
+                render={() => (
+                  <FormItem>
+                    <FormLabel>{criterion.label} ({formatScaleRange(criterion)})</FormLabel>
+                    {criterion.description && (
+                      <FormDescription>{criterion.description}</FormDescription>
+                    )}
+                    <div className="flex flex-wrap justify-between gap-1">
+                      {Array.from(
+                        { length: criterion.maxScore - criterion.minScore + 1 },
+                        (_, i) => criterion.minScore + i
+                      ).map((rating) => (
+                        <div
+                          key={rating}
+                          className={`rating-circle w-8 h-8 rounded-full flex items-center justify-center border-2 
+                            ${selectedScores?.[criterion.key] === rating 
+                              ? 'bg-primary text-white border-primary' 
+                              : 'border-primary text-foreground'
+                            }`}
+                          onClick={() => handleRatingClick(criterion.key, rating)}
+                        >
+                          <span className="text-sm">{rating}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
             
             {/* Comments */}
             <FormField
@@ -239,12 +220,11 @@ export function EvaluationPanel() {
               disabled={
                 !form.formState.isValid || 
                 form.formState.isSubmitting || 
-                !selectedRatings.technicalContent || 
-                !selectedRatings.presentationSkills || 
-                !selectedRatings.projectDemo
+                isSubmittingEvaluation || 
+                criteria.some((criterion) => selectedScores?.[criterion.key] === undefined)
               }
             >
-              Submit Evaluation
+              {isSubmittingEvaluation ? "Submitting..." : "Submit Evaluation"}
             </Button>
           </form>
         </Form>
@@ -0,0 +1,252 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowDown, ArrowUp, Check, EyeOff, Plus, RotateCcw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDateTime } from "@/lib/format";
+import { feedbackEditSchema } from "@shared/schema";
+import type { AIFeedbackVersionWithAuthor, FeedbackReview } from "@shared/schema";
+
+type Draft = {
+  strengths: string[];
+  improvements: string[];
+};
+
+const sameDraft = (a: Draft, b: Draft) =>
+  JSON.stringify([a.strengths, a.improvements]) === JSON.stringify([b.strengths, b.improvements]);
+
+// Review screen for one session's feedback: edit the points, save them as a
+// new version, look back through earlier versions and publish to the team
+export function FeedbackEditor({ sessionId }: { sessionId: number }) {
+  const { toast } = useToast();
+  const queryKey = [`/api/sessions/${sessionId}/feedback`];
+  const [draft, setDraft] = useState<Draft>({ strengths: [], improvements: [] });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data, isLoading, error } = useQuery<FeedbackReview>({
+    queryKey,
+    staleTime: 0,
+  });
+
+  const saved: Draft | null = data
+    ? { strengths: data.feedback.strengths, improvements: data.feedback.improvements }
+    : null;
+  const isDirty = !!saved && !sameDraft(draft, saved);
+
+  // Load each new version into the editor, unless that would throw away edits
+  useEffect(() => {
+    if (saved && !isDirty) {
+      setDraft(saved);
+    }
+    // Only when the server's version changes
+  }, [data?.feedback.version]);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground text-center py-8">Loading feedback...</p>;
+  }
+
+  if (error || !data) {
+    return (
+      <p className="text-sm text-destructive text-center py-8">
+        {error ? (error as Error).message : "No feedback has been generated for this session"}
+      </p>
+    );
+  }
+
+  const { feedback, versions } = data;
+  const isPublished = feedback.publishedVersion === feedback.version;
+
+  // Every change goes through the server, which returns the updated review
+  const submit = async (method: string, url: string, body: unknown, success: string) => {
+    setIsSaving(true);
+    try {
+      const response = await apiRequest(method, url, body);
+      const review: FeedbackReview = await response.json();
+      setDraft({ strengths: review.feedback.strengths, improvements: review.feedback.improvements });
+      queryClient.setQueryData(queryKey, review);
+      queryClient.invalidateQueries({ queryKey: [`/api/sessions/${sessionId}`] });
+      toast({ title: success });
+    } catch (error) {
+      console.error("Feedback review error:", error);
+      toast({
+        title: "Could not update feedback",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const parsed = feedbackEditSchema.safeParse({ baseVersion: feedback.version, ...draft });
+    if (!parsed.success) {
+      toast({
+        title: "Invalid feedback",
+        description: parsed.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+    submit("PUT", queryKey[0], parsed.data, `Saved as version ${feedback.version + 1}`);
+  };
+
+  const handlePublish = () =>
+    submit("POST", `${queryKey[0]}/publish`, { version: feedback.version }, "Feedback published to the team");
+
+  const handleUnpublish = () =>
+    submit("DELETE", `${queryKey[0]}/publish`, undefined, "Feedback withdrawn from the team");
+
+  const handleRestore = (version: AIFeedbackVersionWithAuthor) => {
+    setDraft({ strengths: version.strengths, improvements: version.improvements });
+    toast({
+      title: `Loaded version ${version.version}`,
+      description: "Save to make it the current version",
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium">Version {feedback.version}</span>
+        {isPublished ? (
+          <Badge>Published</Badge>
+        ) : feedback.publishedVersion ? (
+          <Badge variant="secondary">Version {feedback.publishedVersion} is published</Badge>
+        ) : (
+          <Badge variant="outline">Not published</Badge>
+        )}
+        {isDirty && <Badge variant="outline">Unsaved changes</Badge>}
+        <span className="text-muted-foreground">Overall score {feedback.overallScore / 10}/10</span>
+      </div>
+
+      <PointList
+        title="Strengths"
+        titleClassName="text-secondary"
+        points={draft.strengths}
+        onChange={(strengths) => setDraft({ ...draft, strengths })}
+      />
+      <PointList
+        title="Areas for Improvement"
+        titleClassName="text-accent"
+        points={draft.improvements}
+        onChange={(improvements) => setDraft({ ...draft, improvements })}
+      />
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {isDirty && saved && (
+          <Button variant="ghost" onClick={() => setDraft(saved)} disabled={isSaving}>
+            Discard Changes
+          </Button>
+        )}
+        <Button variant="outline" onClick={handleSave} disabled={!isDirty || isSaving}>
+          Save Version
+        </Button>
+        {feedback.publishedVersion !== null && (
+          <Button variant="outline" onClick={handleUnpublish} disabled={isSaving}>
+            <EyeOff className="h-4 w-4 mr-1" />
+            Unpublish
+          </Button>
+        )}
+        <Button onClick={handlePublish} disabled={isDirty || isPublished || isSaving}>
+          <Check className="h-4 w-4 mr-1" />
+          Approve & Publish
+        </Button>
+      </div>
+
+      {versions.length > 0 && (
+        <div className="border-t pt-4">
+          <h4 className="text-sm font-medium mb-2">Version History</h4>
+          <ul className="space-y-1 max-h-48 overflow-y-auto text-sm">
+            {versions.map(version => (
+              <li key={version.id} className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <span className="font-medium">v{version.version}</span>{" "}
+                  <span className="text-muted-foreground">
+                    {version.authorId !== null
+                      ? `edited by ${version.author?.username ?? "a deleted admin"}`
+                      : `generated by ${version.provider} (${version.model})`}
+                    {" · "}{formatDateTime(version.createdAt)}
+                  </span>
+                  {version.version === feedback.publishedVersion && (
+                    <Badge variant="secondary" className="ml-2">Published</Badge>
+                  )}
+                </div>
+                {version.version !== feedback.version && (
+                  <Button size="sm" variant="ghost" onClick={() => handleRestore(version)} disabled={isSaving}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PointList({
+  title,
+  titleClassName,
+  points,
+  onChange,
+}: {
+  title: string;
+  titleClassName: string;
+  points: string[];
+  onChange: (points: string[]) => void;
+}) {
+  const move = (index: number, offset: number) => {
+    const next = [...points];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <h4 className={`text-sm font-medium ${titleClassName}`}>{title}</h4>
+      {points.length === 0 && (
+        <p className="text-sm text-muted-foreground italic">None mentioned by evaluators.</p>
+      )}
+      {points.map((point, index) => (
+        <div key={index} className="flex items-start gap-1">
+          <Textarea
+            value={point}
+            rows={2}
+            className="text-sm"
+            onChange={(e) => onChange(points.map((p, i) => i === index ? e.target.value : p))}
+          />
+          <div className="flex flex-col">
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => move(index, -1)} disabled={index === 0}>
+              <ArrowUp className="h-4 w-4" />
+              <span className="sr-only">Move up</span>
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => move(index, 1)}
+              disabled={index === points.length - 1}
+            >
+              <ArrowDown className="h-4 w-4" />
+              <span className="sr-only">Move down</span>
+            </Button>
+          </div>
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => onChange(points.filter((_, i) => i !== index))}>
+            <X className="h-4 w-4" />
+            <span className="sr-only">Remove</span>
+          </Button>
+        </div>
+      ))}
+      <Button size="sm" variant="outline" onClick={() => onChange([...points, ""])}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add
+      </Button>
+    </div>
+  );
+}
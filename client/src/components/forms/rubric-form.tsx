@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { X, Plus } from "lucide-react";
+import { rubricFormSchema } from "@shared/schema";
+import type { Rubric, RubricForm } from "@shared/schema";
+
+type CriterionRow = {
+  // Existing keys are kept so recorded scores stay attached to their criterion
+  key?: string;
+  label: string;
+  description: string;
+  minScore: string;
+  maxScore: string;
+  weight: string;
+};
+
+interface RubricFormProps {
+  rubric?: Rubric;
+  onSubmit: (rubric: RubricForm) => void;
+  onCancel?: () => void;
+}
+
+const emptyCriterion = (): CriterionRow => ({
+  label: "",
+  description: "",
+  minScore: "1",
+  maxScore: "10",
+  weight: "1",
+});
+
+// "Code Quality & Style" -> "codeQualityStyle"
+function toCriterionKey(label: string): string {
+  const words = label
+    .replace(/[^a-zA-Z0-9 ]/g, " ")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const key = words
+    .map((word, index) => index === 0
+      ? word.toLowerCase()
+      : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join("");
+
+  return /^[a-z]/.test(key) ? key : `criterion${key}`;
+}
+
+export function RubricForm({ rubric, onSubmit, onCancel }: RubricFormProps) {
+  const [name, setName] = useState(rubric?.name ?? "");
+  const [isDefault, setIsDefault] = useState(rubric?.isDefault ?? false);
+  const [criteria, setCriteria] = useState<CriterionRow[]>(
+    rubric
+      ? rubric.criteria.map(criterion => ({
+          key: criterion.key,
+          label: criterion.label,
+          description: criterion.description ?? "",
+          minScore: criterion.minScore.toString(),
+          maxScore: criterion.maxScore.toString(),
+          weight: criterion.weight.toString(),
+        }))
+      : [emptyCriterion()]
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const addCriterion = () => {
+    setCriteria([...criteria, emptyCriterion()]);
+  };
+
+  const removeCriterion = (index: number) => {
+    if (criteria.length > 1) {
+      setCriteria(criteria.filter((_, i) => i !== index));
+    }
+  };
+
+  const updateCriterion = (index: number, field: keyof CriterionRow, value: string) => {
+    const updatedCriteria = [...criteria];
+    updatedCriteria[index] = { ...updatedCriteria[index], [field]: value };
+    setCriteria(updatedCriteria);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // New criteria get a key derived from their label, numbered if it clashes
+    const usedKeys = new Set(criteria.flatMap(c => c.key ? [c.key] : []));
+    const parsed = rubricFormSchema.safeParse({
+      name: name.trim(),
+      isDefault,
+      criteria: criteria.map(criterion => {
+        let key = criterion.key;
+        if (!key) {
+          const base = toCriterionKey(criterion.label);
+          key = base;
+          for (let n = 2; usedKeys.has(key); n++) {
+            key = `${base}${n}`;
+          }
+          usedKeys.add(key);
+        }
+
+        return {
+          key,
+          label: criterion.label.trim(),
+          description: criterion.description.trim() || undefined,
+          minScore: Number(criterion.minScore),
+          maxScore: Number(criterion.maxScore),
+          weight: Number(criterion.weight),
+        };
+      }),
+    });
+
+    if (!parsed.success) {
+      setError(parsed.error.errors[0].message);
+      return;
+    }
+
+    setError(null);
+    onSubmit(parsed.data);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Rubric Name</label>
+        <Input
+          placeholder="e.g., Final Year Project Review"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+        />
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium">Criteria</label>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={addCriterion}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Criterion
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-[1fr_4rem_4rem_4rem_2.5rem] gap-2 text-xs text-muted-foreground">
+          <span>Label / Description</span>
+          <span>Min</span>
+          <span>Max</span>
+          <span>Weight</span>
+          <span />
+        </div>
+
+        {criteria.map((criterion, index) => (
+          <div key={index} className="grid grid-cols-[1fr_4rem_4rem_4rem_2.5rem] gap-2 items-start">
+            <div className="space-y-2">
+              <Input
+                placeholder="Label"
+                value={criterion.label}
+                onChange={(e) => updateCriterion(index, "label", e.target.value)}
+                required
+              />
+              <Input
+                placeholder="Description (optional)"
+                value={criterion.description}
+                onChange={(e) => updateCriterion(index, "description", e.target.value)}
+              />
+            </div>
+            <Input
+              type="number"
+              value={criterion.minScore}
+              onChange={(e) => updateCriterion(index, "minScore", e.target.value)}
+              required
+            />
+            <Input
+              type="number"
+              value={criterion.maxScore}
+              onChange={(e) => updateCriterion(index, "maxScore", e.target.value)}
+              required
+            />
+            <Input
+              type="number"
+              step="0.1"
+              value={criterion.weight}
+              onChange={(e) => updateCriterion(index, "weight", e.target.value)}
+              required
+            />
+            {criteria.length > 1 && (
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                onClick={() => removeCriterion(index)}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove</span>
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="rubric-default"
+          checked={isDefault}
+          onCheckedChange={(checked) => setIsDefault(checked === true)}
+        />
+        <label htmlFor="rubric-default" className="text-sm">
+          Use as the default rubric for new presentations
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit">{rubric ? "Save Rubric" : "Create Rubric"}</Button>
+      </div>
+    </form>
+  );
+}
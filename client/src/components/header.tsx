@@ -2,28 +2,33 @@ import { useAuth } from "@/contexts/auth-context";
 import { usePresentation } from "@/contexts/presentation-context";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Upload, PlayCircle, MonitorPlay, LogOut } from "lucide-react";
+import { Link } from "wouter";
+import { Upload, PlayCircle, MonitorPlay, LogOut, DoorOpen, MessageSquareText } from "lucide-react";
 
 type HeaderProps = {
-  onUploadTeams: () => void;
+  // Shown as a header button on the admin home page only
+  onUploadTeams?: () => void;
 };
 
 export function Header({ onUploadTeams }: HeaderProps) {
   const { user, logout } = useAuth();
-  const { activeSession } = usePresentation();
+  const { activeSession, room, leaveRoom } = usePresentation();
 
   return (
     <header className="bg-white border-b border-border py-2 px-4 shadow-sm">
       <div className="container mx-auto flex justify-between items-center">
         <div className="flex items-center space-x-4">
           <h1 className="text-xl font-google-sans font-semibold text-foreground">Peer Evaluation System</h1>
+          {room && (
+            <Badge variant="outline" className="font-mono">{room.name} · {room.code}</Badge>
+          )}
           {activeSession && (
             <Badge variant="secondary" className="bg-secondary">Active Session</Badge>
           )}
         </div>
         
         {/* Admin Controls (Only visible to admins) */}
-        {user?.isAdmin && (
+        {user?.isAdmin && onUploadTeams && (
           <div className="flex items-center space-x-3">
             <Button 
               variant="outline" 
@@ -42,8 +47,24 @@ export function Header({ onUploadTeams }: HeaderProps) {
           <span className="text-sm text-muted-foreground">
             {user?.isAdmin 
               ? "Admin" 
-              : `${user?.name} (${user?.usn})`}
+              : user?.isPresenterDevice
+                ? "Presenter device"
+                : `${user?.name} (${user?.usn})`}
           </span>
+          {user && !user.isAdmin && !user.isPresenterDevice && (
+            <Button variant="ghost" size="sm" asChild>
+              <Link href="/my-feedback">
+                <MessageSquareText className="h-4 w-4 mr-1" />
+                My Team's Feedback
+              </Link>
+            </Button>
+          )}
+          {room && !user?.isAdmin && !user?.isPresenterDevice && (
+            <Button variant="ghost" size="sm" onClick={leaveRoom}>
+              <DoorOpen className="h-4 w-4 mr-1" />
+              Leave Room
+            </Button>
+          )}
           <Button variant="ghost" size="sm" className="text-accent" onClick={logout}>
             <LogOut className="h-4 w-4 mr-1" />
             Logout
@@ -0,0 +1,84 @@
+import { usePresentation } from "@/contexts/presentation-context";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { joinRoomSchema } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+type JoinRoomValues = z.input<typeof joinRoomSchema>;
+
+export function JoinRoom() {
+  const { joinRoom, connected } = usePresentation();
+
+  const form = useForm<JoinRoomValues>({
+    resolver: zodResolver(joinRoomSchema),
+    defaultValues: {
+      code: "",
+    },
+  });
+
+  const onSubmit = (values: JoinRoomValues) => {
+    joinRoom(values.code.trim().toUpperCase());
+  };
+
+  return (
+    <div className="flex-grow flex items-center justify-center p-4">
+      <Card className="w-full max-w-md mx-auto">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-google-sans">Join a Room</CardTitle>
+          <CardDescription>
+            Enter the room code shown by your presenter to follow the presentation
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Room Code</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g., K7QM3P"
+                        className="font-mono uppercase tracking-widest"
+                        autoComplete="off"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button
+                type="submit"
+                className="w-full bg-primary hover:bg-primary/90"
+                disabled={!connected}
+              >
+                {connected ? "Join Room" : "Connecting..."}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
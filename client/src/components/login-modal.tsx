@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/contexts/auth-context";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
@@ -28,12 +29,17 @@ export function LoginModal() {
   const { loginAsPeer, loginAsAdmin, isLoading } = useAuth();
   const [activeTab, setActiveTab] = useState<string>("peer");
 
+  const { data: loginOptions } = useQuery<{ requiresPin: boolean }>({
+    queryKey: ["/api/auth/login-options"],
+  });
+
   // Peer login form
   const peerForm = useForm<z.infer<typeof peerLoginSchema>>({
     resolver: zodResolver(peerLoginSchema),
     defaultValues: {
       name: "",
       usn: "",
+      pin: "",
     },
   });
 
@@ -41,16 +47,17 @@ export function LoginModal() {
   const adminForm = useForm<z.infer<typeof adminLoginSchema>>({
     resolver: zodResolver(adminLoginSchema),
     defaultValues: {
+      username: "",
       password: "",
     },
   });
 
   const onPeerSubmit = async (values: z.infer<typeof peerLoginSchema>) => {
-    await loginAsPeer(values.name, values.usn);
+    await loginAsPeer(values.name, values.usn, values.pin || undefined);
   };
 
   const onAdminSubmit = async (values: z.infer<typeof adminLoginSchema>) => {
-    await loginAsAdmin(values.password);
+    await loginAsAdmin(values.username, values.password);
   };
 
   return (
@@ -100,6 +107,27 @@ export function LoginModal() {
                     )}
                   />
                   
+                  {loginOptions?.requiresPin && (
+                    <FormField
+                      control={peerForm.control}
+                      name="pin"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Join PIN</FormLabel>
+                          <FormControl>
+                            <Input 
+                              placeholder="PIN announced by your coordinator" 
+                              inputMode="numeric" 
+                              autoComplete="off" 
+                              {...field} 
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  
                   <Button 
                     type="submit" 
                     className="w-full bg-primary hover:bg-primary/90"
@@ -114,14 +142,28 @@ export function LoginModal() {
             <TabsContent value="admin">
               <Form {...adminForm}>
                 <form onSubmit={adminForm.handleSubmit(onAdminSubmit)} className="space-y-4">
+                  <FormField
+                    control={adminForm.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Enter your username" autoComplete="username" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  
                   <FormField
                     control={adminForm.control}
                     name="password"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Admin Password</FormLabel>
+                        <FormLabel>Password</FormLabel>
                         <FormControl>
-                          <Input type="password" placeholder="Enter admin password" {...field} />
+                          <Input type="password" placeholder="Enter your password" autoComplete="current-password" {...field} />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
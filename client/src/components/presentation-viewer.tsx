@@ -1,24 +1,24 @@
-import { useRef, useState, useEffect } from "react";
+import { useRef, useState, useEffect, type PointerEvent, type RefObject } from "react";
 import { usePresentation } from "@/contexts/presentation-context";
 import { Button } from "@/components/ui/button";
-import { Maximize2 } from "lucide-react";
-import { useAuth } from "@/contexts/auth-context";
-import { useSocket, wsUrl } from "@/lib/socket";
+import { Eye, EyeOff, Maximize2, Volume2, VolumeX } from "lucide-react";
+import { ScreenShareReceiver, type SharedStreams } from "@/lib/screen-share";
+import { getRtcConfig } from "@/lib/rtc-config";
 
 export function PresentationViewer() {
   const { 
+    socket,
+    connected,
     activeSession, 
     activeTeam, 
     timerSeconds,
-    isScreenSharing
+    screenShareActive,
+    presenterCameraOn
   } = usePresentation();
   
-  const { user } = useAuth();
-  const socketUrl = user ? `${wsUrl}?sessionId=${user.id}` : '';
-  const [socket, connected] = useSocket(socketUrl);
   const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
+  const [remoteStreams, setRemoteStreams] = useState<SharedStreams | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
 
   const handleFullscreen = () => {
@@ -31,90 +31,24 @@ export function PresentationViewer() {
     }
   };
 
-  // Initialize WebRTC for receiving screen share
+  // Ask the sharer for a connection whenever someone else's share is
+  // running. Joining mid-share works the same way: the server replays
+  // screen_share_start.
   useEffect(() => {
-    if (!socket || !connected || user?.isAdmin) return;
+    if (!socket || !connected || !screenShareActive) return;
     
-    // Initialize peer connection if not admin (only peers receive screen share)
-    const pc = new RTCPeerConnection({
-      iceServers: [
-        { urls: "stun:stun.l.google.com:19302" },
-        { urls: "stun:stun1.l.google.com:19302" },
-      ],
-    });
-    
-    peerConnectionRef.current = pc;
-    
-    // Handle incoming tracks (screen share)
-    pc.ontrack = (event) => {
-      console.log("Received remote track:", event.streams[0]);
-      if (videoRef.current) {
-        videoRef.current.srcObject = event.streams[0];
-      }
-    };
-    
-    // Handle ICE candidates
-    pc.onicecandidate = (event) => {
-      if (event.candidate && socket.readyState === WebSocket.OPEN) {
-        socket.send(JSON.stringify({
-          type: "ice_candidate",
-          payload: {
-            candidate: event.candidate,
-          },
-        }));
-      }
-    };
+    const receiver = new ScreenShareReceiver(socket, setRemoteStreams, getRtcConfig);
+    receiver.request();
     
-    // Handle WebRTC signaling messages
-    const handleRTCMessage = async (event: MessageEvent) => {
-      try {
-        const data = JSON.parse(event.data);
-        
-        // Handle offer (from admin sharing screen)
-        if (data.type === "offer" && pc.signalingState !== "have-remote-offer") {
-          console.log("Received offer:", data.payload.sdp);
-          await pc.setRemoteDescription(new RTCSessionDescription(data.payload.sdp));
-          
-          // Create and send answer
-          const answer = await pc.createAnswer();
-          await pc.setLocalDescription(answer);
-          
-          if (socket.readyState === WebSocket.OPEN) {
-            socket.send(JSON.stringify({
-              type: "answer",
-              payload: {
-                sdp: pc.localDescription
-              }
-            }));
-          }
-        }
-        
-        // Handle ICE candidates (from admin)
-        if (data.type === "ice_candidate" && data.payload.candidate) {
-          console.log("Received ICE candidate");
-          pc.addIceCandidate(new RTCIceCandidate(data.payload.candidate))
-            .catch(err => console.error("Error adding ICE candidate:", err));
-        }
-      } catch (err) {
-        console.error("Error handling RTC message:", err);
-      }
-    };
-    
-    if (socket) {
-      socket.addEventListener("message", handleRTCMessage);
+    return () => receiver.close();
+  }, [socket, connected, screenShareActive]);
+  
+  // The video element only exists while sharing, so attach the stream here
+  useEffect(() => {
+    if (videoRef.current) {
+      videoRef.current.srcObject = remoteStreams?.screen ?? null;
     }
-    
-    return () => {
-      if (socket) {
-        socket.removeEventListener("message", handleRTCMessage);
-      }
-      
-      if (peerConnectionRef.current) {
-        peerConnectionRef.current.close();
-        peerConnectionRef.current = null;
-      }
-    };
-  }, [socket, connected, user]);
+  }, [remoteStreams, screenShareActive]);
 
   useEffect(() => {
     const handleFullscreenChange = () => {
@@ -140,7 +74,7 @@ export function PresentationViewer() {
       className="flex-grow bg-black p-4 flex items-center justify-center relative"
     >
       <div className="w-full h-full flex items-center justify-center">
-        {!isScreenSharing ? (
+        {!screenShareActive ? (
           <div className="text-center text-white opacity-80">
             <div className="text-6xl mb-4">📊</div>
             <h3 className="text-xl font-google-sans font-medium mb-2">No Active Presentation</h3>
@@ -162,6 +96,11 @@ export function PresentationViewer() {
         )}
       </div>
       
+      {/* Presenter's camera */}
+      {screenShareActive && presenterCameraOn && remoteStreams && (
+        <CameraOverlay stream={remoteStreams.camera} containerRef={containerRef} />
+      )}
+      
       {/* Presentation Info */}
       {activeSession && activeTeam && (
         <div className="absolute bottom-4 left-4 bg-black bg-opacity-70 text-white px-3 py-2 rounded-md text-sm">
@@ -182,3 +121,122 @@ export function PresentationViewer() {
     </div>
   );
 }
+
+// Top-left corner as a fraction of the container, so the overlay keeps its
+// place when the viewer goes fullscreen
+type OverlayPosition = { x: number; y: number };
+
+// The presenter's camera as a picture-in-picture that each viewer can drag
+// around, mute or hide. Hiding keeps the presenter's voice playing.
+function CameraOverlay({
+  stream,
+  containerRef,
+}: {
+  stream: MediaStream;
+  containerRef: RefObject<HTMLDivElement>;
+}) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; start: OverlayPosition } | null>(null);
+  const [position, setPosition] = useState<OverlayPosition | null>(null);
+  const [isMuted, setIsMuted] = useState(false);
+  const [isHidden, setIsHidden] = useState(false);
+
+  // Browsers may refuse to autoplay sound; fall back to muted and let the
+  // viewer unmute
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    video.srcObject = stream;
+    video.play().catch(() => {
+      video.muted = true;
+      setIsMuted(true);
+      video.play().catch((error) => console.error("Error playing presenter camera:", error));
+    });
+  }, [stream]);
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    const overlay = overlayRef.current;
+    const container = containerRef.current;
+    if (!overlay || !container || (event.target as HTMLElement).closest("button")) return;
+
+    const bounds = overlay.getBoundingClientRect();
+    const outer = container.getBoundingClientRect();
+    dragRef.current = {
+      pointerX: event.clientX,
+      pointerY: event.clientY,
+      start: {
+        x: (bounds.left - outer.left) / outer.width,
+        y: (bounds.top - outer.top) / outer.height,
+      },
+    };
+    overlay.setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const overlay = overlayRef.current;
+    const container = containerRef.current;
+    if (!drag || !overlay || !container) return;
+
+    const outer = container.getBoundingClientRect();
+    const maxX = Math.max(0, 1 - overlay.offsetWidth / outer.width);
+    const maxY = Math.max(0, 1 - overlay.offsetHeight / outer.height);
+    const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+
+    setPosition({
+      x: clamp(drag.start.x + (event.clientX - drag.pointerX) / outer.width, maxX),
+      y: clamp(drag.start.y + (event.clientY - drag.pointerY) / outer.height, maxY),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute z-10 rounded-md overflow-hidden shadow-lg bg-black bg-opacity-70 cursor-move touch-none select-none ${
+        position ? "" : "top-4 right-4"
+      } ${isHidden ? "" : "w-40 md:w-64"}`}
+      style={position ? { left: `${position.x * 100}%`, top: `${position.y * 100}%` } : undefined}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted={isMuted}
+        className={isHidden ? "hidden" : "w-full aspect-video object-cover pointer-events-none"}
+      ></video>
+      <div className="flex items-center justify-between gap-1 px-2 py-1 text-white text-xs">
+        <span className="truncate">Presenter</span>
+        <div className="flex">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-white hover:bg-white hover:bg-opacity-20 hover:text-white"
+            onClick={() => setIsMuted(!isMuted)}
+          >
+            {isMuted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+            <span className="sr-only">{isMuted ? "Unmute presenter" : "Mute presenter"}</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-white hover:bg-white hover:bg-opacity-20 hover:text-white"
+            onClick={() => setIsHidden(!isHidden)}
+          >
+            {isHidden ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+            <span className="sr-only">{isHidden ? "Show presenter camera" : "Hide presenter camera"}</span>
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { usePresentation } from "@/contexts/presentation-context";
+import { queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { DoorOpen, LogOut, Plus } from "lucide-react";
+import type { Room, Team } from "@shared/schema";
+
+type RoomWithActiveTeam = Room & { activeTeam: Team | null };
+
+// Lets an admin open an existing room or create a new one for a parallel track
+export function RoomPanel() {
+  const { room, joinRoom, leaveRoom, createRoom } = usePresentation();
+  const { toast } = useToast();
+  const [selectedCode, setSelectedCode] = useState("");
+  const [newRoomName, setNewRoomName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  const { data: rooms = [] } = useQuery<RoomWithActiveTeam[]>({
+    queryKey: ["/api/rooms"],
+    enabled: !room,
+  });
+
+  const handleCreateRoom = async () => {
+    try {
+      setIsCreating(true);
+      const created = await createRoom(newRoomName.trim());
+      setNewRoomName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+
+      toast({
+        title: "Room created",
+        description: `Peers can join ${created.name} with code ${created.code}`,
+      });
+    } catch (error) {
+      console.error("Room creation error:", error);
+      toast({
+        title: "Failed to create room",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleLeaveRoom = () => {
+    leaveRoom();
+    queryClient.invalidateQueries({ queryKey: ["/api/rooms"] });
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-xl flex items-center">
+          <DoorOpen className="h-5 w-5 mr-2" />
+          Room
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {room ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-sm">Name:</span>
+              <span className="text-sm font-medium">{room.name}</span>
+            </div>
+            <div className="text-center">
+              <p className="text-xs text-muted-foreground mb-1">Peers join with code</p>
+              <p className="font-mono text-3xl font-semibold tracking-widest">{room.code}</p>
+            </div>
+            <Button variant="outline" className="w-full" onClick={handleLeaveRoom}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Leave Room
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Open a Room</label>
+              <Select value={selectedCode} onValueChange={setSelectedCode}>
+                <SelectTrigger>
+                  <SelectValue placeholder="-- Select a room --" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rooms.map(r => (
+                    <SelectItem key={r.id} value={r.code}>
+                      {r.name} ({r.code}){r.activeTeam ? ` · ${r.activeTeam.name} presenting` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                className="w-full"
+                onClick={() => joinRoom(selectedCode)}
+                disabled={!selectedCode}
+              >
+                Open Room
+              </Button>
+            </div>
+
+            <div className="space-y-2 border-t border-border pt-4">
+              <label className="text-sm font-medium">New Room</label>
+              <Input
+                placeholder="e.g., Seminar Hall A"
+                value={newRoomName}
+                onChange={(e) => setNewRoomName(e.target.value)}
+              />
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleCreateRoom}
+                disabled={isCreating || !newRoomName.trim()}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {isCreating ? "Creating..." : "Create Room"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
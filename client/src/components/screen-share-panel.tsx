@@ -1,15 +1,49 @@
+import { useEffect, useRef, useState } from "react";
 import { usePresentation } from "@/contexts/presentation-context";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/auth-context";
-import { MonitorUp, MonitorOff } from "lucide-react";
+import { isRecordingSupported } from "@/lib/recording";
+import { Circle, Copy, MonitorUp, MonitorOff, Square, UserCheck, Video, VideoOff, X } from "lucide-react";
 
 export function ScreenSharePanel() {
-  const { isScreenSharing, startScreenShare, stopScreenShare, peers } = usePresentation();
+  const {
+    isScreenSharing,
+    screenShareViewers,
+    startScreenShare,
+    stopScreenShare,
+    peers,
+    canShareScreen,
+    activeSession,
+    isRecording,
+    startRecording,
+    stopRecording,
+    cameraStream,
+    startCamera,
+    stopCamera,
+  } = usePresentation();
   const { user } = useAuth();
   const { toast } = useToast();
-  
+  const [isStartingRecording, setIsStartingRecording] = useState(false);
+  const [isStartingCamera, setIsStartingCamera] = useState(false);
+  const previewRef = useRef<HTMLVideoElement>(null);
+
+  // Our own camera as viewers see it, without playing our voice back to us
+  useEffect(() => {
+    if (previewRef.current) {
+      previewRef.current.srcObject = cameraStream;
+    }
+  }, [cameraStream]);
+
   const handleStartScreenShare = async () => {
     try {
       await startScreenShare();
@@ -22,16 +56,52 @@ export function ScreenSharePanel() {
       });
     }
   };
-  
+
   const handleStopScreenShare = () => {
     stopScreenShare();
   };
-  
-  // Only admins can share screen
-  if (!user?.isAdmin) {
+
+  const handleStartCamera = async () => {
+    try {
+      setIsStartingCamera(true);
+      await startCamera();
+    } catch (error) {
+      console.error("Camera error:", error);
+      toast({
+        title: "Camera failed",
+        description: error instanceof Error ? error.message : "Failed to turn on the camera",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStartingCamera(false);
+    }
+  };
+
+  const handleStartRecording = async () => {
+    try {
+      setIsStartingRecording(true);
+      await startRecording();
+      toast({
+        title: "Recording started",
+        description: "The recording is saved with this session as it goes",
+      });
+    } catch (error) {
+      console.error("Recording error:", error);
+      toast({
+        title: "Recording failed",
+        description: error instanceof Error ? error.message : "Failed to start recording",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStartingRecording(false);
+    }
+  };
+
+  // Admins, and whoever an admin has allowed to present
+  if (!canShareScreen) {
     return null;
   }
-  
+
   return (
     <Card className="shadow-sm">
       <CardHeader className="pb-3">
@@ -45,12 +115,21 @@ export function ScreenSharePanel() {
               {isScreenSharing ? 'Active' : 'Inactive'}
             </span>
           </div>
-          
-          <div className="flex items-center justify-between">
-            <span className="text-sm">Connected peers:</span>
-            <span className="text-sm font-medium">{peers.length}</span>
-          </div>
-          
+
+          {user?.isAdmin && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm">Connected peers:</span>
+              <span className="text-sm font-medium">{peers.length}</span>
+            </div>
+          )}
+
+          {isScreenSharing && (
+            <div className="flex items-center justify-between">
+              <span className="text-sm">Watching:</span>
+              <span className="text-sm font-medium">{screenShareViewers}</span>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-2 pt-2">
             <Button
               variant="default"
@@ -70,14 +149,165 @@ export function ScreenSharePanel() {
               Stop Sharing
             </Button>
           </div>
-          
+
+          {isScreenSharing && (
+            cameraStream ? (
+              <div className="space-y-2">
+                <video
+                  ref={previewRef}
+                  autoPlay
+                  playsInline
+                  muted
+                  className="w-full aspect-video object-cover rounded-md bg-black"
+                ></video>
+                <Button variant="outline" className="w-full" onClick={stopCamera}>
+                  <VideoOff className="h-4 w-4 mr-2" />
+                  Turn Off Camera
+                </Button>
+              </div>
+            ) : (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleStartCamera}
+                disabled={isStartingCamera}
+              >
+                <Video className="h-4 w-4 mr-2" />
+                Add Camera & Microphone
+              </Button>
+            )
+          )}
+
+          {isScreenSharing && activeSession && isRecordingSupported() && (
+            isRecording ? (
+              <Button variant="outline" className="w-full" onClick={stopRecording}>
+                <Square className="h-4 w-4 mr-2 fill-current text-destructive" />
+                Stop Recording
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={handleStartRecording}
+                disabled={isStartingRecording}
+              >
+                <Circle className="h-4 w-4 mr-2 fill-current text-destructive" />
+                Record Presentation
+              </Button>
+            )
+          )}
+
           <p className="text-xs text-muted-foreground pt-2">
             {isScreenSharing
-              ? "Your screen is being shared with all connected peers"
-              : "Share your screen with all connected peers"}
+              ? "Your screen is being shared with everyone in the room"
+              : "Share your screen with everyone in the room"}
           </p>
+
+          {user?.isAdmin && <ShareGrantControls />}
         </div>
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
+
+// Lets the admin hand sharing over to the presenting team for the current
+// session, either to one member or to a presenter device opened from a link
+function ShareGrantControls() {
+  const { activeSession, activeTeam, shareGrant, grantScreenShare, revokeScreenShare } = usePresentation();
+  const { toast } = useToast();
+  const [selectedUsn, setSelectedUsn] = useState("");
+
+  if (!activeSession || !activeTeam) {
+    return (
+      <p className="text-xs text-muted-foreground border-t pt-4">
+        Start a presentation to let the presenting team share their own screen.
+      </p>
+    );
+  }
+
+  const presenterLink = shareGrant?.kind === "device" && shareGrant.token
+    ? `${window.location.origin}/present?token=${encodeURIComponent(shareGrant.token)}`
+    : null;
+
+  const handleCopyLink = async () => {
+    if (!presenterLink) return;
+    try {
+      await navigator.clipboard.writeText(presenterLink);
+      toast({ title: "Presenter link copied" });
+    } catch (error) {
+      console.error("Clipboard error:", error);
+      toast({
+        title: "Could not copy the link",
+        description: "Select the link and copy it manually",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <h4 className="text-sm font-medium">Presenter Sharing</h4>
+
+      {shareGrant ? (
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm flex items-center min-w-0">
+            <UserCheck className="h-4 w-4 mr-2 shrink-0 text-green-500" />
+            <span className="truncate">
+              {shareGrant.kind === "member"
+                ? `${shareGrant.name} (${shareGrant.usn}) may share`
+                : "The presenter device may share"}
+            </span>
+          </span>
+          <Button size="sm" variant="ghost" onClick={revokeScreenShare}>
+            <X className="h-4 w-4 mr-1" />
+            Revoke
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Only admins can share. Rights granted here end with the presentation.
+        </p>
+      )}
+
+      {presenterLink && (
+        <div className="flex gap-2">
+          <Input value={presenterLink} readOnly onFocus={(e) => e.target.select()} className="text-xs" />
+          <Button size="icon" variant="outline" onClick={handleCopyLink}>
+            <Copy className="h-4 w-4" />
+            <span className="sr-only">Copy link</span>
+          </Button>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Select value={selectedUsn} onValueChange={setSelectedUsn}>
+          <SelectTrigger>
+            <SelectValue placeholder={`Member of ${activeTeam.name}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {activeTeam.members.map(member => (
+              <SelectItem key={member.usn} value={member.usn}>
+                {member.name} ({member.usn})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          onClick={() => grantScreenShare({ kind: "member", usn: selectedUsn })}
+          disabled={!selectedUsn}
+        >
+          Allow
+        </Button>
+      </div>
+
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={() => grantScreenShare({ kind: "device" })}
+      >
+        {shareGrant?.kind === "device" ? "New Presenter Device Link" : "Presenter Device Link"}
+      </Button>
+    </div>
+  );
+}
@@ -8,15 +8,20 @@ type User = {
   isAdmin: boolean;
   name?: string;
   usn?: string;
+  // Signed in from an admin's presenter link; may only share its screen
+  isPresenterDevice?: boolean;
 };
 
 type AuthContextType = {
   user: User | null;
   isLoading: boolean;
   login: (username: string, password: string) => Promise<boolean>;
-  loginAsAdmin: (password: string) => Promise<boolean>;
-  loginAsPeer: (name: string, usn: string) => Promise<boolean>;
+  loginAsAdmin: (username: string, password: string) => Promise<boolean>;
+  loginAsPeer: (name: string, usn: string, pin?: string) => Promise<boolean>;
+  loginAsPresenter: (token: string) => Promise<boolean>;
   logout: () => void;
+  // Re-check the login with the server, signing out locally if it has ended
+  refreshUser: () => Promise<void>;
 };
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -63,17 +68,17 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const loginAsAdmin = async (password: string): Promise<boolean> => {
+  const loginAsAdmin = async (username: string, password: string): Promise<boolean> => {
     try {
       setIsLoading(true);
-      const res = await apiRequest("POST", "/api/auth/admin-login", { password });
+      const res = await apiRequest("POST", "/api/auth/admin-login", { username, password });
       const data = await res.json();
       setUser(data);
       return true;
     } catch (error) {
       toast({
         title: "Admin login failed",
-        description: error instanceof Error ? error.message : "Invalid admin password",
+        description: error instanceof Error ? error.message : "Invalid username or password",
         variant: "destructive",
       });
       return false;
@@ -82,10 +87,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const loginAsPeer = async (name: string, usn: string): Promise<boolean> => {
+  const loginAsPeer = async (name: string, usn: string, pin?: string): Promise<boolean> => {
     try {
       setIsLoading(true);
-      const res = await apiRequest("POST", "/api/auth/peer-login", { name, usn });
+      const res = await apiRequest("POST", "/api/auth/peer-login", { name, usn, pin });
       const data = await res.json();
       setUser({ ...data, name, usn });
       return true;
@@ -101,6 +106,41 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const loginAsPresenter = async (token: string): Promise<boolean> => {
+    try {
+      setIsLoading(true);
+      const res = await apiRequest("POST", "/api/auth/presenter-login", { token });
+      const data = await res.json();
+      setUser(data);
+      return true;
+    } catch (error) {
+      toast({
+        title: "Presenter login failed",
+        description: error instanceof Error ? error.message : "Invalid presenter link",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const refreshUser = async () => {
+    try {
+      const res = await fetch("/api/auth/me", { credentials: "include" });
+      if (res.status === 401) {
+        setUser(null);
+        toast({
+          title: "Signed out",
+          description: "Your login has ended. Please log in again.",
+        });
+      }
+    } catch (error) {
+      // The server is unreachable, not refusing us; keep the login
+      console.error("Auth check failed:", error);
+    }
+  };
+
   const logout = async () => {
     try {
       await apiRequest("POST", "/api/auth/logout", {});
@@ -116,7 +156,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     login,
     loginAsAdmin,
     loginAsPeer,
+    loginAsPresenter,
     logout,
+    refreshUser,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -1,66 +1,98 @@
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, { createContext, useContext, useState, useEffect, useRef } from "react";
 import { useSocket } from "@/lib/socket";
 import { useAuth } from "./auth-context";
 import { useToast } from "@/hooks/use-toast";
-import { wsUrl } from "@/lib/socket";
+import { wsUrl, sendMessage, onServerMessage } from "@/lib/socket";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ScreenShareManager } from "@/lib/screen-share";
+import { SessionRecorder } from "@/lib/recording";
+import { getRtcConfig } from "@/lib/rtc-config";
+import type { AverageScores } from "@shared/scoring";
+import type { FeedbackSummary, ServerMessage, ShareGrant } from "@shared/protocol";
+import { normalizeUsn } from "@shared/schema";
 import type {
 	Team,
+	Room,
+	Rubric,
+	EvaluationForm,
 	PresentationSession,
 	Evaluation,
-	AIFeedback,
+	FeedbackJob,
 } from "@shared/schema";
 
 // Define custom types for the window object
 declare global {
 	interface Window {
 		screenShareStream: MediaStream | null;
-		rtcPeer: RTCPeerConnection | null;
 	}
 }
 
 // Initialize window global variables
 window.screenShareStream = window.screenShareStream || null;
-window.rtcPeer = window.rtcPeer || null;
 
 type MemberType = { name: string; usn: string };
 
+// The room code is remembered so a reload or reconnect rejoins the same room
+const ROOM_CODE_STORAGE_KEY = "roomCode";
+
+// How long to wait for the server to accept a screen share
+const SHARE_START_TIMEOUT_MS = 10000;
+
 type PresentationContextType = {
+	socket: WebSocket | null;
+	connected: boolean;
+	room: Room | null;
+	joinRoom: (code: string) => void;
+	leaveRoom: () => void;
+	createRoom: (name: string) => Promise<Room>;
 	activeSession: PresentationSession | null;
 	activeTeam: Team | null;
+	activeRubric: Rubric | null;
 	evaluations: Evaluation[];
-	feedback: AIFeedback | null;
+	feedback: FeedbackSummary | null;
+	// Session the feedback belongs to; it arrives after the session ended
+	feedbackSessionId: number | null;
+	// Whether we are sharing our own screen
 	isScreenSharing: boolean;
+	// Whether someone else in the room is sharing theirs
+	screenShareActive: boolean;
+	// Whether that sharer is also sending their camera
+	presenterCameraOn: boolean;
+	// Viewers currently connected to our own screen share
+	screenShareViewers: number;
+	// Who besides admins may share during this session
+	shareGrant: ShareGrant | null;
+	canShareScreen: boolean;
+	grantScreenShare: (target: { kind: "member"; usn: string } | { kind: "device" }) => void;
+	revokeScreenShare: () => void;
 	peers: { id: number; name: string }[];
 	startScreenShare: () => Promise<MediaStream | null>;
 	stopScreenShare: () => void;
-	submitEvaluation: (
-		evaluation: Omit<
-			Evaluation,
-			"id" | "sessionId" | "peerId" | "submittedAt"
-		>
-	) => Promise<void>;
-	startPresentation: (teamId: number) => Promise<void>;
+	// Whether our own screen share is being recorded
+	isRecording: boolean;
+	startRecording: () => Promise<void>;
+	stopRecording: () => void;
+	// Our own camera and microphone, sent alongside our screen share
+	cameraStream: MediaStream | null;
+	startCamera: () => Promise<void>;
+	stopCamera: () => void;
+	submitEvaluation: (evaluation: EvaluationForm) => Promise<void>;
+	startPresentation: (teamId: number, rubricId?: number) => Promise<void>;
 	endPresentation: () => Promise<void>;
+	startEvaluation: () => void;
 	uploadTeams: (teams: Omit<Team, "id" | "createdBy">[]) => Promise<void>;
-	averageScores: {
-		technicalContent: number;
-		presentationSkills: number;
-		projectDemo: number;
-		overall: number;
-	} | null;
+	averageScores: AverageScores | null;
 	timerSeconds: number;
 	isTimerRunning: boolean;
 	startTimer: () => void;
 	pauseTimer: () => void;
 	resetTimer: () => void;
 	hasSubmittedEvaluation: boolean;
-};
-
-const defaultAverageScores = {
-	technicalContent: 0,
-	presentationSkills: 0,
-	projectDemo: 0,
-	overall: 0,
+	// Sent and waiting for the server to accept or reject it
+	isSubmittingEvaluation: boolean;
+	// True when the logged-in peer is a member of the presenting team
+	isPresenting: boolean;
+	allowSelfAssessment: boolean;
 };
 
 const PresentationContext = createContext<PresentationContextType | undefined>(
@@ -72,19 +104,44 @@ export function PresentationProvider({
 }: {
 	children: React.ReactNode;
 }) {
-	const { user } = useAuth();
+	const { user, isLoading, refreshUser } = useAuth();
 	const { toast } = useToast();
-	// Only connect to WebSocket if user is authenticated
-	const socketUrl = user && user.id ? `${wsUrl}?sessionId=${user.id}` : "";
-	// Connect to WebSocket when the user is authenticated
-	const [socket, connected] = useSocket(socketUrl);
-
+	// Only connect to WebSocket if user is authenticated. The server identifies
+	// us from the session cookie sent with the upgrade request.
+	const socketUrl = user ? wsUrl : "";
+	// Connect to WebSocket when the user is authenticated. A refused
+	// connection usually means our login ended, e.g. it expired.
+	const [socket, connected] = useSocket(socketUrl, refreshUser);
+
+	const [room, setRoom] = useState<Room | null>(null);
+	const [roomCode, setRoomCode] = useState<string | null>(() =>
+		localStorage.getItem(ROOM_CODE_STORAGE_KEY)
+	);
 	const [activeSession, setActiveSession] =
 		useState<PresentationSession | null>(null);
 	const [activeTeam, setActiveTeam] = useState<Team | null>(null);
+	const [activeRubric, setActiveRubric] = useState<Rubric | null>(null);
 	const [evaluations, setEvaluations] = useState<Evaluation[]>([]);
-	const [feedback, setFeedback] = useState<AIFeedback | null>(null);
+	const [feedback, setFeedback] = useState<FeedbackSummary | null>(null);
+	const [feedbackSessionId, setFeedbackSessionId] = useState<number | null>(
+		null
+	);
 	const [isScreenSharing, setIsScreenSharing] = useState(false);
+	const [screenShareViewers, setScreenShareViewers] = useState(0);
+	const [screenShareActive, setScreenShareActive] = useState(false);
+	const [presenterCameraOn, setPresenterCameraOn] = useState(false);
+	const [shareGrant, setShareGrant] = useState<ShareGrant | null>(null);
+	const screenShareRef = useRef<ScreenShareManager | null>(null);
+	// Settles our screen_share_start once the server accepts or refuses it
+	const shareStartRef = useRef<{
+		resolve: () => void;
+		reject: (error: Error) => void;
+	} | null>(null);
+	const [isRecording, setIsRecording] = useState(false);
+	const recorderRef = useRef<SessionRecorder | null>(null);
+	const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
+	// Also read from track callbacks, which see stale state
+	const cameraStreamRef = useRef<MediaStream | null>(null);
 	const [peers, setPeers] = useState<{ id: number; name: string }[]>([]);
 	const [timerSeconds, setTimerSeconds] = useState(0);
 	const [isTimerRunning, setIsTimerRunning] = useState(false);
@@ -92,44 +149,147 @@ export function PresentationProvider({
 		null
 	);
 	const [hasSubmittedEvaluation, setHasSubmittedEvaluation] = useState(false);
+	const [isSubmittingEvaluation, setIsSubmittingEvaluation] = useState(false);
+	// Read by the socket handler, which sees stale state; a replayed
+	// evaluation_submitted after a reconnect is not our submission
+	const evaluationPendingRef = useRef(false);
+	// Whether we may evaluate the team on stage; set on every render
+	const canEvaluateRef = useRef(false);
+	const [allowSelfAssessment, setAllowSelfAssessment] = useState(false);
 	const [averageScores, setAverageScores] =
 		useState<PresentationContextType["averageScores"]>(null);
+	// Tracks the session we last saw so reconnects don't wipe its state
+	const activeSessionIdRef = useRef<number | null>(null);
+	const roomIdRef = useRef<number | null>(null);
+
+	// An answer cannot arrive on a dropped connection; let the user resend
+	useEffect(() => {
+		if (!connected) {
+			evaluationPendingRef.current = false;
+			setIsSubmittingEvaluation(false);
+		}
+	}, [connected]);
+
+	// Forget the room once the user logs out
+	useEffect(() => {
+		if (!isLoading && !user) {
+			roomIdRef.current = null;
+			setRoom(null);
+			setRoomCode(null);
+		}
+	}, [user, isLoading]);
+
+	// Remember the room code across reloads
+	useEffect(() => {
+		if (roomCode) {
+			localStorage.setItem(ROOM_CODE_STORAGE_KEY, roomCode);
+		} else {
+			localStorage.removeItem(ROOM_CODE_STORAGE_KEY);
+		}
+	}, [roomCode]);
 
 	useEffect(() => {
 		if (!socket || !connected) return;
 
+		const clearSessionState = () => {
+			activeSessionIdRef.current = null;
+			setActiveSession(null);
+			setActiveTeam(null);
+			setActiveRubric(null);
+			setEvaluations([]);
+			setFeedback(null);
+			setFeedbackSessionId(null);
+			setScreenShareActive(false);
+			setPresenterCameraOn(false);
+			setShareGrant(null);
+			setHasSubmittedEvaluation(false);
+			evaluationPendingRef.current = false;
+			setIsSubmittingEvaluation(false);
+			setAverageScores(null);
+			setPeers([]);
+		};
+
+		const handleRoomUpdate = (data: { room: Room | null }) => {
+			// Session state belongs to a room; the new room re-sends its own
+			if (roomIdRef.current !== (data.room?.id ?? null)) {
+				roomIdRef.current = data.room?.id ?? null;
+				clearSessionState();
+			}
+			setRoom(data.room);
+			setRoomCode(data.room?.code ?? null);
+		};
+
 		const handleSessionUpdate = (data: {
 			session: PresentationSession;
 			team: Team;
+			rubric: Rubric;
+			allowSelfAssessment: boolean;
 		}) => {
 			setActiveSession(data.session);
 			setActiveTeam(data.team);
-			setEvaluations([]);
-			setFeedback(null);
-			setHasSubmittedEvaluation(false);
-			setAverageScores(null);
-			resetTimer();
+			setActiveRubric(data.rubric);
+			setAllowSelfAssessment(data.allowSelfAssessment);
+
+			// The server re-sends the running session after a reconnect or
+			// restart; only clear per-session state when a new one starts.
+			// The timer follows in its own timer_update.
+			if (activeSessionIdRef.current !== data.session.id) {
+				activeSessionIdRef.current = data.session.id;
+				setEvaluations([]);
+				setFeedback(null);
+				setFeedbackSessionId(null);
+				setHasSubmittedEvaluation(false);
+				evaluationPendingRef.current = false;
+				setIsSubmittingEvaluation(false);
+				setAverageScores(null);
+			}
 		};
 
 		const handleSessionEnd = () => {
+			activeSessionIdRef.current = null;
 			setActiveSession(null);
 			setActiveTeam(null);
-			setIsScreenSharing(false);
+			setActiveRubric(null);
 			setHasSubmittedEvaluation(false);
+			evaluationPendingRef.current = false;
+			setIsSubmittingEvaluation(false);
 			setAverageScores(null);
 			resetTimer();
 		};
 
 		const handleEvaluationUpdate = (data: {
 			evaluations: Evaluation[];
-			averages: typeof defaultAverageScores;
+			averages: AverageScores;
 		}) => {
 			setEvaluations(data.evaluations);
 			setAverageScores(data.averages);
 		};
 
-		const handleFeedbackUpdate = (data: { feedback: AIFeedback }) => {
+		const handleFeedbackUpdate = (data: {
+			sessionId: number;
+			feedback: FeedbackSummary;
+		}) => {
 			setFeedback(data.feedback);
+			setFeedbackSessionId(data.sessionId);
+		};
+
+		// Admin-only; the session pages show the job state from their query
+		const handleFeedbackJobUpdate = (data: { job: FeedbackJob }) => {
+			const { job } = data;
+			queryClient.invalidateQueries({
+				queryKey: [`/api/sessions/${job.sessionId}`],
+			});
+			queryClient.invalidateQueries({
+				queryKey: [`/api/sessions/${job.sessionId}/feedback`],
+			});
+
+			if (job.status === "failed") {
+				toast({
+					title: "Feedback generation failed",
+					description: job.lastError ?? "An unexpected error occurred",
+					variant: "destructive",
+				});
+			}
 		};
 
 		const handlePeersUpdate = (data: {
@@ -169,7 +329,8 @@ export function PresentationProvider({
 			teamName: string;
 			projectTitle: string;
 		}) => {
-			if (user?.isAdmin) return; // Only peers should see this
+			// Only peers who may evaluate this team should see this
+			if (!canEvaluateRef.current) return;
 
 			toast({
 				title: "Evaluation Started",
@@ -177,12 +338,14 @@ export function PresentationProvider({
 			});
 		};
 
-		const handleSocketMessage = (event: MessageEvent) => {
+		const handleSocketMessage = (message: ServerMessage) => {
 			try {
-				const message = JSON.parse(event.data);
 				console.log("WS message:", message);
 
 				switch (message.type) {
+					case "room_update":
+						handleRoomUpdate(message.payload);
+						break;
 					case "session_update":
 						handleSessionUpdate(message.payload);
 						break;
@@ -192,9 +355,23 @@ export function PresentationProvider({
 					case "evaluation_update":
 						handleEvaluationUpdate(message.payload);
 						break;
+					case "evaluation_submitted":
+						setHasSubmittedEvaluation(true);
+						setIsSubmittingEvaluation(false);
+						if (evaluationPendingRef.current) {
+							evaluationPendingRef.current = false;
+							toast({
+								title: "Evaluation submitted",
+								description: "Thank you for your feedback!",
+							});
+						}
+						break;
 					case "feedback_update":
 						handleFeedbackUpdate(message.payload);
 						break;
+					case "feedback_job_update":
+						handleFeedbackJobUpdate(message.payload);
+						break;
 					case "peers_update":
 						handlePeersUpdate(message.payload);
 						break;
@@ -202,25 +379,56 @@ export function PresentationProvider({
 						handleTimerUpdate(message.payload);
 						break;
 					case "screen_share_start":
+						setScreenShareActive(true);
+						setPresenterCameraOn(false);
 						if (!user?.isAdmin) {
 							// Only show this toast for non-admin users (peers)
 							handleScreenShareStart();
 						}
 						break;
+					case "screen_share_started":
+						shareStartRef.current?.resolve();
+						shareStartRef.current = null;
+						break;
 					case "screen_share_stop":
+						setScreenShareActive(false);
+						setPresenterCameraOn(false);
 						if (!user?.isAdmin) {
 							// Only show this toast for non-admin users (peers)
 							handleScreenShareStop();
 						}
 						break;
+					case "screen_share_camera":
+						setPresenterCameraOn(message.payload.enabled);
+						break;
+					case "screen_share_grant":
+						setShareGrant(message.payload.grant);
+						break;
 					case "start_evaluation":
 						handleStartEvaluation(message.payload);
 						break;
 					case "error":
+						// startScreenShare reports the refusal itself
+						if (message.payload.requestType === "screen_share_start" && shareStartRef.current) {
+							shareStartRef.current.reject(new Error(message.payload.message));
+							shareStartRef.current = null;
+							break;
+						}
+						// A rejected evaluation leaves the form open to fix and resend
+						if (message.payload.requestType === "submit_evaluation") {
+							evaluationPendingRef.current = false;
+							setIsSubmittingEvaluation(false);
+							setHasSubmittedEvaluation(false);
+							toast({
+								title: "Submission failed",
+								description: message.payload.message,
+								variant: "destructive",
+							});
+							break;
+						}
 						toast({
 							title: "Error",
-							description:
-								message.payload?.message || "An error occurred",
+							description: message.payload.message,
 							variant: "destructive",
 						});
 						break;
@@ -230,23 +438,69 @@ export function PresentationProvider({
 			}
 		};
 
-		socket.addEventListener("message", handleSocketMessage);
+		return onServerMessage(socket, handleSocketMessage);
+	}, [socket, connected, toast, user]);
+
+	// Rejoin the remembered room (or just fetch state) whenever we connect
+	useEffect(() => {
+		if (!socket || !connected || socket.readyState !== WebSocket.OPEN) return;
 
-		// Request initial state when connecting, but only if socket is in OPEN state
-		if (connected && socket.readyState === WebSocket.OPEN) {
-			try {
-				socket.send(JSON.stringify({ type: "get_state" }));
-			} catch (error) {
-				console.error("Error sending initial state request:", error);
+		try {
+			if (roomCode) {
+				sendMessage(socket, {
+					type: "join_room",
+					payload: { code: roomCode },
+				});
+			} else {
+				sendMessage(socket, { type: "get_state" });
 			}
+		} catch (error) {
+			console.error("Error sending initial state request:", error);
 		}
+		// Only on (re)connect; joinRoom sends its own join_room
+	}, [socket, connected]);
 
-		return () => {
-			if (socket) {
-				socket.removeEventListener("message", handleSocketMessage);
-			}
-		};
-	}, [socket, connected, toast, user]);
+	const joinRoom = (code: string) => {
+		if (!socket || !connected || socket.readyState !== WebSocket.OPEN) {
+			toast({
+				title: "Not connected to server",
+				description: "Please wait for the connection and try again",
+				variant: "destructive",
+			});
+			return;
+		}
+
+		sendMessage(socket, {
+			type: "join_room",
+			payload: { code },
+		});
+	};
+
+	const leaveRoom = () => {
+		if (isScreenSharing) {
+			stopScreenShare();
+		}
+
+		setRoomCode(null);
+		if (socket && connected && socket.readyState === WebSocket.OPEN) {
+			sendMessage(socket, { type: "leave_room" });
+		}
+	};
+
+	const createRoom = async (name: string): Promise<Room> => {
+		const res = await apiRequest("POST", "/api/rooms", { name });
+		const created: Room = await res.json();
+		joinRoom(created.code);
+		return created;
+	};
+
+	// The server ends a share when the sharer's socket closes, and the
+	// connections are bound to that socket, so a reconnect cannot resume it
+	useEffect(() => {
+		if (!connected && screenShareRef.current) {
+			stopScreenShare();
+		}
+	}, [connected]);
 
 	// Handle local timer when it's running
 	useEffect(() => {
@@ -268,72 +522,15 @@ export function PresentationProvider({
 	}, [isTimerRunning, timerInterval]);
 
 	const startScreenShare = async () => {
+		let mediaStream: MediaStream | null = null;
+
 		try {
 			if (!socket || !connected) {
 				throw new Error("Not connected to server");
 			}
 
-			const peer = window.rtcPeer;
-			if (!peer) {
-				// Initialize peer if not already initialized
-				const pc = new RTCPeerConnection({
-					iceServers: [
-						{ urls: "stun:stun.l.google.com:19302" },
-						{ urls: "stun:stun1.l.google.com:19302" },
-					],
-				});
-
-				window.rtcPeer = pc;
-
-				// Handle ICE candidates
-				pc.onicecandidate = (event) => {
-					if (
-						event.candidate &&
-						socket &&
-						socket.readyState === WebSocket.OPEN
-					) {
-						socket.send(
-							JSON.stringify({
-								type: "ice_candidate",
-								payload: {
-									candidate: event.candidate,
-								},
-							})
-						);
-					}
-				};
-
-				// Set up message handlers for WebRTC signaling
-				if (socket) {
-					const handleRTCMessage = (event: MessageEvent) => {
-						try {
-							const data = JSON.parse(event.data);
-
-							if (
-								data.type === "answer" &&
-								pc.signalingState !== "stable"
-							) {
-								pc.setRemoteDescription(
-									new RTCSessionDescription(data.payload.sdp)
-								);
-							}
-
-							if (data.type === "ice_candidate") {
-								pc.addIceCandidate(
-									new RTCIceCandidate(data.payload.candidate)
-								);
-							}
-						} catch (err) {
-							console.error("Error handling RTC message:", err);
-						}
-					};
-
-					socket.addEventListener("message", handleRTCMessage);
-				}
-			}
-
 			// Request screen sharing permission from browser
-			const mediaStream = await navigator.mediaDevices.getDisplayMedia({
+			mediaStream = await navigator.mediaDevices.getDisplayMedia({
 				video: true,
 				audio: true,
 			});
@@ -341,48 +538,38 @@ export function PresentationProvider({
 			// Store the media stream for later reference
 			window.screenShareStream = mediaStream;
 
-			// Add tracks to peer connection
-			// Notify server that screen sharing has started
-			if (socket.readyState === WebSocket.OPEN) {
-				socket.send(
-					JSON.stringify({
-						type: "screen_share_start",
-					})
-				);
-			} else {
-				console.warn(
-					"Socket not open, unable to send screen share start message"
-				);
-			}
+			// Each viewer asks for its own connection once it hears the share
+			// started, so the manager must be listening before we announce it
+			screenShareRef.current?.close();
+			screenShareRef.current = new ScreenShareManager(
+				socket,
+				mediaStream,
+				getRtcConfig,
+				setScreenShareViewers
+			);
 
-			// Handle WebRTC if peer connection exists
-			if (window.rtcPeer) {
-				mediaStream.getTracks().forEach((track) => {
-					if (window.rtcPeer) {
-						window.rtcPeer.addTrack(track, mediaStream);
-					}
-				});
+			// Notify server that screen sharing has started, and wait for it
+			// to accept; it refuses when we have no right to share
+			const accepted = new Promise<void>((resolve, reject) => {
+				shareStartRef.current = { resolve, reject };
+				setTimeout(() => {
+					if (shareStartRef.current?.resolve !== resolve) return;
+					shareStartRef.current = null;
+					// The server may still have taken it, so end it there too
+					sendMessage(socket, { type: "screen_share_stop" });
+					reject(new Error("The server did not answer. Please try again."));
+				}, SHARE_START_TIMEOUT_MS);
+			});
 
-				// Create and send offer
-				const offer = await window.rtcPeer.createOffer();
-				await window.rtcPeer.setLocalDescription(offer);
-
-				// Send the WebRTC offer if socket is open
-				if (
-					socket.readyState === WebSocket.OPEN &&
-					window.rtcPeer.localDescription
-				) {
-					socket.send(
-						JSON.stringify({
-							type: "offer",
-							payload: {
-								sdp: window.rtcPeer.localDescription,
-							},
-						})
-					);
-				}
+			if (!sendMessage(socket, { type: "screen_share_start" })) {
+				shareStartRef.current = null;
+				throw new Error(
+					"WebSocket connection not open. Please try again."
+				);
 			}
 
+			await accepted;
+
 			setIsScreenSharing(true);
 
 			// Handle when user stops sharing screen
@@ -402,6 +589,14 @@ export function PresentationProvider({
 
 			return mediaStream;
 		} catch (error) {
+			// Nobody is watching a share the server refused
+			screenShareRef.current?.close();
+			screenShareRef.current = null;
+			mediaStream?.getTracks().forEach((track) => track.stop());
+			if (window.screenShareStream === mediaStream) {
+				window.screenShareStream = null;
+			}
+
 			console.error("Screen sharing error:", error);
 			toast({
 				title: "Screen sharing failed",
@@ -416,6 +611,11 @@ export function PresentationProvider({
 	};
 
 	const stopScreenShare = () => {
+		screenShareRef.current?.close();
+		screenShareRef.current = null;
+		stopRecording();
+		releaseCamera();
+
 		// Stop all tracks in the media stream
 		if (window.screenShareStream) {
 			window.screenShareStream
@@ -425,16 +625,16 @@ export function PresentationProvider({
 				});
 			window.screenShareStream = null;
 		}
+		setIsScreenSharing(false);
 
 		if (socket && connected) {
 			if (socket.readyState === WebSocket.OPEN) {
-				socket.send(JSON.stringify({ type: "screen_share_stop" }));
+				sendMessage(socket, { type: "screen_share_stop" });
 			} else {
 				console.warn(
 					"Socket not open, unable to send screen share stop message"
 				);
 			}
-			setIsScreenSharing(false);
 
 			toast({
 				title: "Screen sharing stopped",
@@ -443,12 +643,137 @@ export function PresentationProvider({
 		}
 	};
 
-	const submitEvaluation = async (
-		evaluation: Omit<
-			Evaluation,
-			"id" | "sessionId" | "peerId" | "submittedAt"
-		>
+	const releaseCamera = () => {
+		cameraStreamRef.current?.getTracks().forEach((track) => track.stop());
+		cameraStreamRef.current = null;
+		setCameraStream(null);
+	};
+
+	const startCamera = async () => {
+		if (!socket || !screenShareRef.current) {
+			throw new Error("Share your screen first to add your camera");
+		}
+
+		const stream = await navigator.mediaDevices.getUserMedia({
+			video: true,
+			audio: true,
+		});
+
+		// Sharing may have stopped while the browser asked for permission
+		if (!screenShareRef.current) {
+			stream.getTracks().forEach((track) => track.stop());
+			return;
+		}
+
+		releaseCamera();
+		cameraStreamRef.current = stream;
+		setCameraStream(stream);
+		screenShareRef.current.setCamera(stream);
+		sendMessage(socket, {
+			type: "screen_share_camera",
+			payload: { enabled: true },
+		});
+
+		// Unplugging the camera turns it off like the button does
+		stream.getTracks().forEach((track) => {
+			track.onended = () => {
+				if (cameraStreamRef.current === stream) {
+					stopCamera();
+				}
+			};
+		});
+	};
+
+	const stopCamera = () => {
+		if (!cameraStreamRef.current) return;
+
+		releaseCamera();
+		screenShareRef.current?.setCamera(null);
+		if (socket && screenShareRef.current && socket.readyState === WebSocket.OPEN) {
+			sendMessage(socket, {
+				type: "screen_share_camera",
+				payload: { enabled: false },
+			});
+		}
+	};
+
+	const startRecording = async () => {
+		if (recorderRef.current) return;
+
+		const stream = window.screenShareStream;
+		if (!stream || !activeSession) {
+			throw new Error("Share your screen during a presentation to record it");
+		}
+
+		const recorder = new SessionRecorder(stream, activeSession.id, (error) => {
+			if (recorderRef.current === recorder) {
+				recorderRef.current = null;
+				setIsRecording(false);
+			}
+			toast({
+				title: "Recording stopped",
+				description: error.message,
+				variant: "destructive",
+			});
+		});
+
+		await recorder.start();
+
+		// Sharing may have stopped while the recording was being set up
+		if (window.screenShareStream !== stream) {
+			recorder.stop().catch((error) => console.error("Recording error:", error));
+			return;
+		}
+
+		recorderRef.current = recorder;
+		setIsRecording(true);
+	};
+
+	// The last chunks keep uploading after this returns
+	const stopRecording = () => {
+		const recorder = recorderRef.current;
+		if (!recorder) return;
+
+		recorderRef.current = null;
+		setIsRecording(false);
+		recorder
+			.stop()
+			.then(() => toast({ title: "Recording saved" }))
+			.catch((error) => {
+				console.error("Recording error:", error);
+				toast({
+					title: "Recording could not be finished",
+					description:
+						error instanceof Error
+							? error.message
+							: "The last part of the recording may be missing",
+					variant: "destructive",
+				});
+			});
+	};
+
+	// A recording belongs to the session it was started in
+	useEffect(() => {
+		if (recorderRef.current && recorderRef.current.sessionId !== activeSession?.id) {
+			stopRecording();
+		}
+	}, [activeSession?.id]);
+
+	const grantScreenShare = (
+		target: { kind: "member"; usn: string } | { kind: "device" }
 	) => {
+		if (socket && connected && user?.isAdmin) {
+			sendMessage(socket, { type: "grant_screen_share", payload: target });
+		}
+	};
+
+	const revokeScreenShare = () => {
+		if (socket && connected && user?.isAdmin) {
+			sendMessage(socket, { type: "revoke_screen_share" });
+		}
+	};
+
+	const submitEvaluation = async (evaluation: EvaluationForm) => {
 		try {
 			if (!socket || !connected) {
 				throw new Error("Not connected to server");
@@ -464,31 +789,20 @@ export function PresentationProvider({
 				);
 			}
 
-			const payload = {
-				...evaluation,
-				sessionId: activeSession.id,
-				submittedAt: new Date().toISOString(),
-			};
-
 			if (socket.readyState === WebSocket.OPEN) {
-				socket.send(
-					JSON.stringify({
-						type: "submit_evaluation",
-						payload,
-					})
-				);
+				sendMessage(socket, {
+					type: "submit_evaluation",
+					payload: evaluation,
+				});
 			} else {
 				throw new Error(
 					"WebSocket connection not open. Please try again."
 				);
 			}
 
-			setHasSubmittedEvaluation(true);
-
-			toast({
-				title: "Evaluation submitted",
-				description: "Thank you for your feedback!",
-			});
+			// Submitted once the server answers with evaluation_submitted
+			evaluationPendingRef.current = true;
+			setIsSubmittingEvaluation(true);
 		} catch (error) {
 			console.error("Evaluation submission error:", error);
 			toast({
@@ -502,7 +816,7 @@ export function PresentationProvider({
 		}
 	};
 
-	const startPresentation = async (teamId: number) => {
+	const startPresentation = async (teamId: number, rubricId?: number) => {
 		try {
 			if (!socket || !connected) {
 				throw new Error("Not connected to server");
@@ -512,12 +826,10 @@ export function PresentationProvider({
 				throw new Error("Only admins can start presentations");
 			}
 
-			socket.send(
-				JSON.stringify({
-					type: "start_presentation",
-					payload: { teamId },
-				})
-			);
+			sendMessage(socket, {
+				type: "start_presentation",
+				payload: { teamId, rubricId },
+			});
 		} catch (error) {
 			console.error("Start presentation error:", error);
 			toast({
@@ -546,12 +858,7 @@ export function PresentationProvider({
 				throw new Error("No active presentation to end");
 			}
 
-			socket.send(
-				JSON.stringify({
-					type: "end_presentation",
-					payload: { sessionId: activeSession.id },
-				})
-			);
+			sendMessage(socket, { type: "end_presentation" });
 		} catch (error) {
 			console.error("End presentation error:", error);
 			toast({
@@ -566,6 +873,38 @@ export function PresentationProvider({
 		}
 	};
 
+	const startEvaluation = () => {
+		try {
+			if (!socket || !connected || socket.readyState !== WebSocket.OPEN) {
+				throw new Error("WebSocket connection not open. Please try again.");
+			}
+
+			if (!activeSession || !activeTeam) {
+				throw new Error("There is no active presentation session to evaluate");
+			}
+
+			// Notify the room's peers to start their evaluation
+			sendMessage(socket, {
+				type: "start_evaluation",
+			});
+
+			toast({
+				title: "Evaluation started",
+				description: "All peers have been notified to start their evaluations",
+			});
+		} catch (error) {
+			console.error("Evaluation start error:", error);
+			toast({
+				title: "Failed to start evaluation",
+				description:
+					error instanceof Error
+						? error.message
+						: "An unexpected error occurred",
+				variant: "destructive",
+			});
+		}
+	};
+
 	const uploadTeams = async (teams: Omit<Team, "id" | "createdBy">[]) => {
 		try {
 			if (!user?.isAdmin) {
@@ -604,19 +943,19 @@ export function PresentationProvider({
 
 	const startTimer = () => {
 		if (socket && connected && user?.isAdmin) {
-			socket.send(JSON.stringify({ type: "timer_start" }));
+			sendMessage(socket, { type: "timer_start" });
 		}
 	};
 
 	const pauseTimer = () => {
 		if (socket && connected && user?.isAdmin) {
-			socket.send(JSON.stringify({ type: "timer_pause" }));
+			sendMessage(socket, { type: "timer_pause" });
 		}
 	};
 
 	const resetTimer = () => {
 		if (socket && connected && user?.isAdmin) {
-			socket.send(JSON.stringify({ type: "timer_reset" }));
+			sendMessage(socket, { type: "timer_reset" });
 		} else {
 			setTimerSeconds(0);
 			setIsTimerRunning(false);
@@ -627,20 +966,65 @@ export function PresentationProvider({
 		}
 	};
 
+	const isPresenting =
+		!!user?.usn &&
+		!!activeTeam?.members.some(
+			(member) => normalizeUsn(member.usn) === normalizeUsn(user.usn!)
+		);
+
+	// Presenting members evaluate their own team only as a self-assessment,
+	// and presenter devices have no student to evaluate as
+	canEvaluateRef.current =
+		!!user?.usn && !user.isAdmin && (!isPresenting || allowSelfAssessment);
+
+	const canShareScreen =
+		!!user &&
+		(user.isAdmin || (!!activeSession && shareGrant?.userId === user.id));
+
+	// Rights end with the session or when an admin revokes them; the server
+	// has already ended the share for viewers by then
+	useEffect(() => {
+		if (isScreenSharing && !canShareScreen) {
+			stopScreenShare();
+		}
+	}, [isScreenSharing, canShareScreen]);
+
 	return (
 		<PresentationContext.Provider
 			value={{
+				socket,
+				connected,
+				room,
+				joinRoom,
+				leaveRoom,
+				createRoom,
 				activeSession,
 				activeTeam,
+				activeRubric,
 				evaluations,
 				feedback,
+				feedbackSessionId,
 				isScreenSharing,
+				screenShareActive,
+				presenterCameraOn,
+				screenShareViewers,
+				shareGrant,
+				canShareScreen,
+				grantScreenShare,
+				revokeScreenShare,
 				peers,
 				startScreenShare,
 				stopScreenShare,
+				isRecording,
+				startRecording,
+				stopRecording,
+				cameraStream,
+				startCamera,
+				stopCamera,
 				submitEvaluation,
 				startPresentation,
 				endPresentation,
+				startEvaluation,
 				uploadTeams,
 				averageScores,
 				timerSeconds,
@@ -649,6 +1033,9 @@ export function PresentationProvider({
 				pauseTimer,
 				resetTimer,
 				hasSubmittedEvaluation,
+				isSubmittingEvaluation,
+				isPresenting,
+				allowSelfAssessment,
 			}}
 		>
 			{children}
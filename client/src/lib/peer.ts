@@ -1,8 +1,11 @@
 import { useEffect, useState } from "react";
-import { useSocket } from "./socket";
+import { useSocket, sendMessage, onServerMessage } from "./socket";
+import { getRtcConfig } from "./rtc-config";
+import type { ServerMessage } from "@shared/protocol";
 
-// Simple WebRTC peer connection wrapper
-export function usePeer(isInitiator: boolean = false): {
+// Simple WebRTC peer connection wrapper between this client and one other,
+// identified by the client id the server uses to route signaling
+export function usePeer(remoteId: string, isInitiator: boolean = false): {
   localStream: MediaStream | null;
   remoteStream: MediaStream | null;
   error: Error | null;
@@ -15,47 +18,52 @@ export function usePeer(isInitiator: boolean = false): {
   const [peerConnection, setPeerConnection] = useState<RTCPeerConnection | null>(null);
   const [error, setError] = useState<Error | null>(null);
 
-  // Initialize WebRTC peer connection
+  // Initialize WebRTC peer connection once the ICE servers are known
   useEffect(() => {
     if (!connected || !socket) return;
 
-    try {
-      const pc = new RTCPeerConnection({
-        iceServers: [
-          { urls: "stun:stun.l.google.com:19302" },
-          { urls: "stun:stun1.l.google.com:19302" },
-        ],
-      });
+    let pc: RTCPeerConnection | null = null;
+    let unsubscribe: (() => void) | null = null;
+    let cancelled = false;
+
+    const setup = async () => {
+      const rtcConfig = await getRtcConfig();
+      if (cancelled) return;
+
+      const connection = new RTCPeerConnection(rtcConfig);
+      pc = connection;
 
       // Handle ICE candidates
-      pc.onicecandidate = (event) => {
+      connection.onicecandidate = (event) => {
         if (event.candidate) {
-          socket.send(JSON.stringify({
+          sendMessage(socket, {
             type: "ice_candidate",
             payload: {
+              to: remoteId,
               candidate: event.candidate,
             },
-          }));
+          });
         }
       };
 
       // Handle remote stream
-      pc.ontrack = (event) => {
+      connection.ontrack = (event) => {
         setRemoteStream(event.streams[0]);
       };
 
       // Handle negotiation needed
-      pc.onnegotiationneeded = async () => {
+      connection.onnegotiationneeded = async () => {
         if (isInitiator) {
           try {
-            const offer = await pc.createOffer();
-            await pc.setLocalDescription(offer);
-            socket.send(JSON.stringify({
+            const offer = await connection.createOffer();
+            await connection.setLocalDescription(offer);
+            sendMessage(socket, {
               type: "offer",
               payload: {
-                sdp: pc.localDescription,
+                to: remoteId,
+                sdp: offer,
               },
-            }));
+            });
           } catch (err) {
             setError(err as Error);
             console.error("Error creating offer:", err);
@@ -63,51 +71,53 @@ export function usePeer(isInitiator: boolean = false): {
         }
       };
 
-      setPeerConnection(pc);
-
-      // Handle WebRTC signaling messages
-      const handleMessage = (event: MessageEvent) => {
-        const message = JSON.parse(event.data);
+      setPeerConnection(connection);
 
+      // Handle WebRTC signaling messages; those from other clients are ignored
+      const handleMessage = (message: ServerMessage) => {
         switch (message.type) {
           case "offer":
-            handleOffer(pc, message.payload.sdp);
+            if (message.payload.from === remoteId) handleOffer(connection, message.payload.sdp);
             break;
           case "answer":
-            handleAnswer(pc, message.payload.sdp);
+            if (message.payload.from === remoteId) handleAnswer(connection, message.payload.sdp);
             break;
           case "ice_candidate":
-            handleIceCandidate(pc, message.payload.candidate);
+            if (message.payload.from === remoteId) handleIceCandidate(connection, message.payload.candidate);
             break;
         }
       };
 
-      socket.addEventListener("message", handleMessage);
+      unsubscribe = onServerMessage(socket, handleMessage);
+    };
 
-      return () => {
-        socket.removeEventListener("message", handleMessage);
-        pc.close();
-      };
-    } catch (err) {
+    setup().catch((err) => {
       setError(err as Error);
       console.error("Error setting up peer connection:", err);
-    }
-  }, [connected, socket, isInitiator]);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      pc?.close();
+    };
+  }, [connected, socket, remoteId, isInitiator]);
 
   // Handle incoming offer
-  const handleOffer = async (pc: RTCPeerConnection, sdp: RTCSessionDescription) => {
+  const handleOffer = async (pc: RTCPeerConnection, sdp: RTCSessionDescriptionInit) => {
     try {
       await pc.setRemoteDescription(new RTCSessionDescription(sdp));
       const answer = await pc.createAnswer();
       await pc.setLocalDescription(answer);
       
       if (socket) {
-        socket.send(JSON.stringify({
+        sendMessage(socket, {
           type: "answer",
           payload: {
-            sdp: pc.localDescription,
+            to: remoteId,
+            sdp: answer,
           },
-        }));
+        });
       }
     } catch (err) {
       setError(err as Error);
@@ -116,7 +126,7 @@ export function usePeer(isInitiator: boolean = false): {
   };
 
   // Handle incoming answer
-  const handleAnswer = async (pc: RTCPeerConnection, sdp: RTCSessionDescription) => {
+  const handleAnswer = async (pc: RTCPeerConnection, sdp: RTCSessionDescriptionInit) => {
     try {
       await pc.setRemoteDescription(new RTCSessionDescription(sdp));
     } catch (err) {
@@ -126,7 +136,7 @@ export function usePeer(isInitiator: boolean = false): {
   };
 
   // Handle incoming ICE candidate
-  const handleIceCandidate = async (pc: RTCPeerConnection, candidate: RTCIceCandidate) => {
+  const handleIceCandidate = async (pc: RTCPeerConnection, candidate: RTCIceCandidateInit) => {
     try {
       await pc.addIceCandidate(new RTCIceCandidate(candidate));
     } catch (err) {
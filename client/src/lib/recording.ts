@@ -0,0 +1,132 @@
+import { apiRequest } from "./queryClient";
+import type { SessionRecording } from "@shared/schema";
+
+// Length of each uploaded chunk, and so roughly how much is lost if the
+// sharing tab closes without stopping
+const CHUNK_INTERVAL_MS = 5000;
+const MAX_UPLOAD_ATTEMPTS = 3;
+
+// Formats the server accepts, best first
+const RECORDING_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+  "video/mp4",
+];
+
+function supportedType(): string | undefined {
+  if (typeof MediaRecorder === "undefined") return undefined;
+  return RECORDING_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+export function isRecordingSupported(): boolean {
+  return supportedType() !== undefined;
+}
+
+async function readErrorMessage(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    return body.message ?? response.statusText;
+  } catch {
+    return response.statusText;
+  }
+}
+
+// Records a screen share with MediaRecorder and uploads it to the session's
+// recording as it goes, one chunk at a time and in order
+export class SessionRecorder {
+  private recorder: MediaRecorder | null = null;
+  private recording: SessionRecording | null = null;
+  private nextSeq = 0;
+  private uploads: Promise<void> = Promise.resolve();
+  private failed = false;
+
+  constructor(
+    private readonly stream: MediaStream,
+    readonly sessionId: number,
+    // Called once if uploading gives up; the recorder has stopped by then
+    private readonly onError: (error: Error) => void
+  ) {}
+
+  async start() {
+    const mimeType = supportedType();
+    if (!mimeType) {
+      throw new Error("This browser cannot record video");
+    }
+
+    const response = await apiRequest("POST", `/api/sessions/${this.sessionId}/recordings`, { mimeType });
+    this.recording = await response.json();
+
+    const recorder = new MediaRecorder(this.stream, { mimeType });
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        const seq = this.nextSeq++;
+        this.uploads = this.uploads.then(() => this.upload(seq, event.data));
+      }
+    };
+    recorder.start(CHUNK_INTERVAL_MS);
+    this.recorder = recorder;
+  }
+
+  private async upload(seq: number, data: Blob) {
+    if (this.failed || !this.recording) return;
+
+    for (let attempt = 1; attempt <= MAX_UPLOAD_ATTEMPTS; attempt++) {
+      let response: Response | null = null;
+      try {
+        response = await fetch(`/api/recordings/${this.recording.id}/chunks/${seq}`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/octet-stream" },
+          body: data,
+          credentials: "include",
+        });
+      } catch (error) {
+        // Network trouble is retried like a server error
+        console.warn(`Recording chunk ${seq} failed to upload:`, error);
+      }
+
+      if (response?.ok) return;
+
+      // Refused outright, e.g. past the size limit; retrying will not help
+      if (response && response.status < 500) {
+        this.fail(new Error(await readErrorMessage(response)));
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+    }
+
+    this.fail(new Error("The recording could not be uploaded"));
+  }
+
+  private fail(error: Error) {
+    if (this.failed) return;
+
+    this.failed = true;
+    if (this.recorder?.state === "recording") {
+      this.recorder.stop();
+    }
+    this.onError(error);
+  }
+
+  // Stop recording, wait for the last chunks to upload and mark the
+  // recording finished. Also safe after the shared tracks have ended, which
+  // stops MediaRecorder by itself.
+  async stop() {
+    const recorder = this.recorder;
+    if (!recorder) return;
+    this.recorder = null;
+
+    if (recorder.state !== "inactive") {
+      await new Promise<void>((resolve) => {
+        recorder.addEventListener("stop", () => resolve(), { once: true });
+        recorder.stop();
+      });
+    }
+
+    await this.uploads;
+    if (!this.failed && this.recording) {
+      await apiRequest("POST", `/api/recordings/${this.recording.id}/finish`);
+    }
+  }
+}
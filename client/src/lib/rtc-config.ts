@@ -0,0 +1,22 @@
+import { queryClient } from "./queryClient";
+import type { RtcConfig } from "@shared/schema";
+
+const RTC_CONFIG_KEY = ["/api/rtc-config"];
+
+// Fetch new TURN credentials this long before the current ones expire, so a
+// connection opened with them has time to allocate its relay
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+
+// The ICE servers to open peer connections with, from the server's config.
+// Cached until the TURN credentials in it are about to expire.
+export async function getRtcConfig(): Promise<RTCConfiguration> {
+  const cached = queryClient.getQueryData<RtcConfig>(RTC_CONFIG_KEY);
+  const isFresh = !!cached &&
+    (!cached.expiresAt || new Date(cached.expiresAt).getTime() - Date.now() > EXPIRY_MARGIN_MS);
+
+  const rtcConfig = isFresh
+    ? cached
+    : await queryClient.fetchQuery<RtcConfig>({ queryKey: RTC_CONFIG_KEY, staleTime: 0 });
+
+  return { iceServers: rtcConfig.iceServers };
+}
@@ -0,0 +1,265 @@
+import { sendMessage, onServerMessage } from "./socket";
+import { getRtcConfig } from "./rtc-config";
+import type { ServerMessage } from "@shared/protocol";
+
+// Looked up for every new connection, so a long share keeps handing out
+// current TURN credentials
+type RtcConfigSource = () => Promise<RTCConfiguration>;
+
+// Every connection carries these transceivers in this order, whether or not
+// each has a track yet. Viewers tell the screen from the camera by position,
+// and the camera can be switched on and off without negotiating again.
+const TRACK_LAYOUT = [
+  { source: "screen", kind: "video" },
+  { source: "screen", kind: "audio" },
+  { source: "camera", kind: "video" },
+  { source: "camera", kind: "audio" },
+] as const;
+
+type TrackSource = typeof TRACK_LAYOUT[number]["source"];
+
+function firstTrack(stream: MediaStream | null, kind: "video" | "audio"): MediaStreamTrack | null {
+  if (!stream) return null;
+  return (kind === "video" ? stream.getVideoTracks() : stream.getAudioTracks())[0] ?? null;
+}
+
+// What a viewer receives. The camera stream stays silent and blank while the
+// presenter has it turned off.
+export type SharedStreams = {
+  screen: MediaStream;
+  camera: MediaStream;
+};
+
+// Sharing side of a screen share. Every viewer gets its own peer connection,
+// opened when the viewer sends screen_share_request, so viewers negotiate
+// independently and can join while the share is running.
+export class ScreenShareManager {
+  private readonly connections = new Map<string, RTCPeerConnection>();
+  private readonly unsubscribe: () => void;
+  private closed = false;
+  private camera: MediaStream | null = null;
+
+  constructor(
+    private readonly socket: WebSocket,
+    private readonly stream: MediaStream,
+    private readonly getConfig: RtcConfigSource = getRtcConfig,
+    // Called with the number of viewers whenever it changes
+    private readonly onViewersChange?: (count: number) => void
+  ) {
+    this.unsubscribe = onServerMessage(socket, (message) => this.handleMessage(message));
+  }
+
+  private handleMessage(message: ServerMessage) {
+    switch (message.type) {
+      case "screen_share_request":
+        this.connect(message.payload.from).catch((error) => {
+          console.error("Error offering screen share:", error);
+          this.disconnect(message.payload.from);
+        });
+        break;
+      case "answer":
+        this.connections.get(message.payload.from)
+          ?.setRemoteDescription(message.payload.sdp)
+          .catch((error) => console.error("Error handling answer:", error));
+        break;
+      case "ice_candidate":
+        this.connections.get(message.payload.from)
+          ?.addIceCandidate(message.payload.candidate)
+          .catch((error) => console.error("Error adding ICE candidate:", error));
+        break;
+      case "screen_share_viewer_left":
+        this.disconnect(message.payload.clientId);
+        break;
+    }
+  }
+
+  private async connect(viewerId: string) {
+    const rtcConfig = await this.getConfig();
+    if (this.closed) return;
+
+    // A viewer asking again (e.g. after a reload) starts over
+    this.disconnect(viewerId);
+
+    const pc = new RTCPeerConnection(rtcConfig);
+    this.connections.set(viewerId, pc);
+    this.onViewersChange?.(this.connections.size);
+
+    TRACK_LAYOUT.forEach(({ source, kind }) => {
+      pc.addTransceiver(this.trackFor(source, kind) ?? kind, { direction: "sendonly" });
+    });
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        sendMessage(this.socket, {
+          type: "ice_candidate",
+          payload: { to: viewerId, candidate: event.candidate },
+        });
+      }
+    };
+
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === "failed" && this.connections.get(viewerId) === pc) {
+        console.warn(`Screen share connection to ${viewerId} failed`);
+        this.disconnect(viewerId);
+      }
+    };
+
+    await pc.setLocalDescription(await pc.createOffer());
+    if (pc.localDescription) {
+      sendMessage(this.socket, {
+        type: "offer",
+        payload: { to: viewerId, sdp: pc.localDescription },
+      });
+    }
+  }
+
+  private trackFor(source: TrackSource, kind: "video" | "audio"): MediaStreamTrack | null {
+    return firstTrack(source === "screen" ? this.stream : this.camera, kind);
+  }
+
+  // Start or stop sending the presenter's camera and microphone to every
+  // viewer, and to viewers who connect later
+  setCamera(camera: MediaStream | null) {
+    this.camera = camera;
+
+    this.connections.forEach((pc) => {
+      const transceivers = pc.getTransceivers();
+      TRACK_LAYOUT.forEach(({ source, kind }, index) => {
+        if (source !== "camera") return;
+
+        transceivers[index]?.sender
+          .replaceTrack(this.trackFor(source, kind))
+          .catch((error) => console.error("Error switching camera track:", error));
+      });
+    });
+  }
+
+  private disconnect(viewerId: string) {
+    const pc = this.connections.get(viewerId);
+    if (!pc) return;
+
+    pc.close();
+    this.connections.delete(viewerId);
+    this.onViewersChange?.(this.connections.size);
+  }
+
+  // Close every viewer's connection; the caller stops the stream itself
+  close() {
+    this.closed = true;
+    this.unsubscribe();
+    this.connections.forEach((pc) => pc.close());
+    this.connections.clear();
+    this.onViewersChange?.(0);
+  }
+}
+
+// Viewing side: asks the sharer for an offer and answers it. A new offer
+// (the sharer restarted, or answered a repeated request) replaces the
+// current connection.
+export class ScreenShareReceiver {
+  private pc: RTCPeerConnection | null = null;
+  private sharerId: string | null = null;
+  // Bumped on every reset so an answer still fetching its config can tell
+  // it has been superseded
+  private attempt = 0;
+  // Candidates that arrive while the offer is still being applied
+  private pendingCandidates: RTCIceCandidateInit[] = [];
+  private readonly unsubscribe: () => void;
+
+  constructor(
+    private readonly socket: WebSocket,
+    private readonly onStream: (streams: SharedStreams | null) => void,
+    private readonly getConfig: RtcConfigSource = getRtcConfig
+  ) {
+    this.unsubscribe = onServerMessage(socket, (message) => this.handleMessage(message));
+  }
+
+  // Ask whoever is sharing for a connection
+  request() {
+    sendMessage(this.socket, { type: "screen_share_request" });
+  }
+
+  private handleMessage(message: ServerMessage) {
+    switch (message.type) {
+      case "offer":
+        this.answer(message.payload.from, message.payload.sdp).catch((error) => {
+          console.error("Error answering screen share offer:", error);
+        });
+        break;
+      case "ice_candidate":
+        if (message.payload.from !== this.sharerId) return;
+
+        if (this.pc?.remoteDescription) {
+          this.pc.addIceCandidate(message.payload.candidate)
+            .catch((error) => console.error("Error adding ICE candidate:", error));
+        } else {
+          this.pendingCandidates.push(message.payload.candidate);
+        }
+        break;
+      case "screen_share_stop":
+        this.reset();
+        break;
+    }
+  }
+
+  private async answer(sharerId: string, sdp: RTCSessionDescriptionInit) {
+    this.reset();
+    const attempt = this.attempt;
+    this.sharerId = sharerId;
+
+    const rtcConfig = await this.getConfig();
+    if (attempt !== this.attempt) return;
+
+    const pc = new RTCPeerConnection(rtcConfig);
+    this.pc = pc;
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        sendMessage(this.socket, {
+          type: "ice_candidate",
+          payload: { to: sharerId, candidate: event.candidate },
+        });
+      }
+    };
+
+    await pc.setRemoteDescription(sdp);
+
+    // The offer created one receiving transceiver per TRACK_LAYOUT entry
+    const tracks = pc.getTransceivers().map((transceiver) => transceiver.receiver.track);
+    const tracksFrom = (source: TrackSource) =>
+      new MediaStream(tracks.filter((_, index) => TRACK_LAYOUT[index]?.source === source));
+    if (this.pc === pc) {
+      this.onStream({ screen: tracksFrom("screen"), camera: tracksFrom("camera") });
+    }
+
+    const pending = this.pendingCandidates;
+    this.pendingCandidates = [];
+    for (const candidate of pending) {
+      await pc.addIceCandidate(candidate);
+    }
+
+    await pc.setLocalDescription(await pc.createAnswer());
+    if (pc.localDescription && this.pc === pc) {
+      sendMessage(this.socket, {
+        type: "answer",
+        payload: { to: sharerId, sdp: pc.localDescription },
+      });
+    }
+  }
+
+  private reset() {
+    if (this.pc) {
+      this.pc.close();
+      this.pc = null;
+      this.onStream(null);
+    }
+    this.sharerId = null;
+    this.pendingCandidates = [];
+    this.attempt++;
+  }
+
+  close() {
+    this.unsubscribe();
+    this.reset();
+  }
+}
@@ -1,14 +1,19 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { parseServerMessage, type ClientMessage, type ServerMessage } from "@shared/protocol";
 
 export const wsUrl = (() => {
   const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
   return `${protocol}//${window.location.host}/ws`;
 })();
 
-export function useSocket(url: string): [WebSocket | null, boolean] {
+// onRejected runs when a connection closes without ever opening, which is
+// how browsers report a refused upgrade, e.g. for an expired login
+export function useSocket(url: string, onRejected?: () => void): [WebSocket | null, boolean] {
   const [socket, setSocket] = useState<WebSocket | null>(null);
   const [connected, setConnected] = useState(false);
   const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const onRejectedRef = useRef(onRejected);
+  onRejectedRef.current = onRejected;
 
   useEffect(() => {
     if (!url) {
@@ -27,8 +32,10 @@ export function useSocket(url: string): [WebSocket | null, boolean] {
       
       try {
         ws = new WebSocket(url);
+        let opened = false;
         
         ws.addEventListener("open", () => {
+          opened = true;
           console.log("WebSocket connected successfully");
           setConnected(true);
           setReconnectAttempt(0); // Reset reconnect attempts on successful connection
@@ -40,6 +47,10 @@ export function useSocket(url: string): [WebSocket | null, boolean] {
           console.log(`WebSocket disconnected with code: ${event.code}, reason: ${event.reason || 'none'}`);
           setConnected(false);
           
+          if (!opened) {
+            onRejectedRef.current?.();
+          }
+          
           // Calculate exponential backoff delay (capped at 30 seconds)
           const backoffDelay = Math.min(1000 * Math.pow(1.5, reconnectAttempt), 30000);
           console.log(`Reconnecting in ${backoffDelay / 1000} seconds...`);
@@ -88,3 +99,33 @@ export function useSocket(url: string): [WebSocket | null, boolean] {
 
   return [socket, connected];
 }
+
+// Send a protocol message; returns false when the socket is not open
+export function sendMessage(socket: WebSocket | null, message: ClientMessage): boolean {
+  if (!socket || socket.readyState !== WebSocket.OPEN) {
+    return false;
+  }
+
+  socket.send(JSON.stringify(message));
+  return true;
+}
+
+// Listen for server messages, dropping frames that don't match the protocol.
+// Returns a function that removes the listener.
+export function onServerMessage(
+  socket: WebSocket,
+  handler: (message: ServerMessage) => void
+): () => void {
+  const listener = (event: MessageEvent) => {
+    const parsed = parseServerMessage(event.data);
+    if (!parsed.success) {
+      console.error("Ignoring malformed WebSocket message:", parsed.error);
+      return;
+    }
+
+    handler(parsed.message);
+  };
+
+  socket.addEventListener("message", listener);
+  return () => socket.removeEventListener("message", listener);
+}
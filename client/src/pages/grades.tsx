@@ -0,0 +1,362 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download, Plus, X } from "lucide-react";
+import { AdminPage } from "@/components/admin-page";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { gradeFormulaSchema, eventSettingsSchema } from "@shared/schema";
+import type { EventSettings, GradebookColumn, Rubric } from "@shared/schema";
+import type { GradeReport } from "@shared/scoring";
+
+export default function Grades() {
+  const { toast } = useToast();
+  const [presentationWeight, setPresentationWeight] = useState("");
+  const [participationWeight, setParticipationWeight] = useState("");
+  const [maxGrade, setMaxGrade] = useState("");
+
+  const { data, isLoading, error } = useQuery<GradeReport>({
+    queryKey: ["/api/grades"],
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (data) {
+      setPresentationWeight(data.formula.presentationWeight.toString());
+      setParticipationWeight(data.formula.participationWeight.toString());
+      setMaxGrade(data.formula.maxGrade.toString());
+    }
+  }, [data]);
+
+  const handleSaveFormula = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = gradeFormulaSchema.safeParse({
+      presentationWeight: Number(presentationWeight),
+      participationWeight: Number(participationWeight),
+      maxGrade: Number(maxGrade),
+    });
+    if (!parsed.success) {
+      toast({
+        title: "Invalid formula",
+        description: parsed.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await apiRequest("PUT", "/api/settings", { gradeFormula: parsed.data });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/grades"] });
+      toast({
+        title: "Grade formula saved",
+        description: "Grades have been recalculated",
+      });
+    } catch (error) {
+      console.error("Grade formula error:", error);
+      toast({
+        title: "Failed to save formula",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <AdminPage
+      title="Grade Report"
+      actions={
+        <Button asChild>
+          <a href="/api/grades.csv" download>
+            <Download className="h-4 w-4 mr-1" />
+            Export CSV
+          </a>
+        </Button>
+      }
+    >
+      <Card>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSaveFormula} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Grade = (presentation weight × team score / 10 + participation weight × share of
+              sessions evaluated) ÷ total weight × maximum grade. Students are not expected to
+              evaluate their own team.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Presentation weight</label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={presentationWeight}
+                  onChange={(e) => setPresentationWeight(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Participation weight</label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={participationWeight}
+                  onChange={(e) => setParticipationWeight(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Maximum grade</label>
+                <Input
+                  type="number"
+                  min="1"
+                  step="any"
+                  value={maxGrade}
+                  onChange={(e) => setMaxGrade(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={!data}>Save Formula</Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading grades...</p>
+          ) : error ? (
+            <p className="text-sm text-destructive text-center py-8">{(error as Error).message}</p>
+          ) : !data || data.students.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No students yet. Import a roster or upload teams first.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>USN</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Team</TableHead>
+                  <TableHead className="text-right">Team Score</TableHead>
+                  <TableHead className="text-right">Evaluated</TableHead>
+                  <TableHead className="text-right">Missed</TableHead>
+                  <TableHead className="text-right">Grade</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.students.map(student => (
+                  <TableRow key={student.usn}>
+                    <TableCell className="font-mono">{student.usn}</TableCell>
+                    <TableCell>{student.name}</TableCell>
+                    <TableCell>{student.teamName ?? "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {student.teamScore !== null ? `${student.teamScore.toFixed(1)}/10` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">{student.sessionsEvaluated}</TableCell>
+                    <TableCell className={`text-right ${student.sessionsMissed > 0 ? "text-destructive" : ""}`}>
+                      {student.sessionsMissed}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {student.grade !== null
+                        ? `${student.grade.toFixed(1)}/${data.formula.maxGrade}`
+                        : "Pending"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <GradebookExport />
+    </AdminPage>
+  );
+}
+
+type ColumnRow = {
+  name: string;
+  source: GradebookColumn["source"];
+  maxPoints: string;
+};
+
+function GradebookExport() {
+  const { toast } = useToast();
+  const [columns, setColumns] = useState<ColumnRow[]>([]);
+
+  const { data: settings } = useQuery<EventSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const { data: rubrics = [] } = useQuery<Rubric[]>({
+    queryKey: ["/api/rubrics"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setColumns(settings.gradebookColumns.map(column => ({
+        ...column,
+        maxPoints: column.maxPoints.toString(),
+      })));
+    }
+  }, [settings]);
+
+  // Criteria with the same key across rubrics are offered once
+  const criteria = Array.from(
+    new Map(rubrics.flatMap(rubric => rubric.criteria).map(criterion => [criterion.key, criterion])).values()
+  );
+
+  const updateColumn = (index: number, updates: Partial<ColumnRow>) => {
+    setColumns(columns.map((column, i) => i === index ? { ...column, ...updates } : column));
+  };
+
+  const handleSave = async () => {
+    const parsed = eventSettingsSchema.safeParse({
+      gradebookColumns: columns.map(column => ({
+        name: column.name,
+        source: column.source,
+        maxPoints: Number(column.maxPoints),
+      })),
+    });
+    if (!parsed.success) {
+      toast({
+        title: "Invalid grade columns",
+        description: parsed.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await apiRequest("PUT", "/api/settings", parsed.data);
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({
+        title: "Grade columns saved",
+        description: "Exports will use the new columns",
+      });
+    } catch (error) {
+      console.error("Gradebook columns error:", error);
+      toast({
+        title: "Failed to save grade columns",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Gradebook Export</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Map scores to the grade columns of your LMS. Students are matched by USN: Moodle
+          on "ID number", Canvas on "SIS User ID". Save changes before exporting.
+        </p>
+
+        <div className="grid grid-cols-[1fr_1fr_6rem_2.5rem] gap-2 text-xs text-muted-foreground">
+          <span>Column name</span>
+          <span>Score</span>
+          <span>Max points</span>
+          <span />
+        </div>
+
+        {columns.map((column, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_6rem_2.5rem] gap-2 items-center">
+            <Input
+              value={column.name}
+              onChange={(e) => updateColumn(index, { name: e.target.value })}
+              placeholder="e.g., Project Presentation"
+            />
+            <Select
+              value={column.source}
+              onValueChange={(source) => updateColumn(index, { source: source as GradebookColumn["source"] })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="grade">Student grade</SelectItem>
+                <SelectItem value="overall">Team overall score</SelectItem>
+                {criteria.map(criterion => (
+                  <SelectItem key={criterion.key} value={`criterion:${criterion.key}`}>
+                    Team {criterion.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min="1"
+              step="any"
+              value={column.maxPoints}
+              onChange={(e) => updateColumn(index, { maxPoints: e.target.value })}
+            />
+            {columns.length > 1 && (
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                onClick={() => setColumns(columns.filter((_, i) => i !== index))}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Remove</span>
+              </Button>
+            )}
+          </div>
+        ))}
+
+        <div className="flex flex-wrap justify-between gap-2">
+          <div className="flex space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setColumns([...columns, { name: "", source: "overall", maxPoints: "10" }])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Column
+            </Button>
+            <Button type="button" onClick={handleSave} disabled={!settings}>
+              Save Columns
+            </Button>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" asChild>
+              <a href="/api/gradebook.csv?format=moodle" download>
+                <Download className="h-4 w-4 mr-1" />
+                Moodle CSV
+              </a>
+            </Button>
+            <Button variant="outline" asChild>
+              <a href="/api/gradebook.csv?format=canvas" download>
+                <Download className="h-4 w-4 mr-1" />
+                Canvas CSV
+              </a>
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Redirect, useLocation } from "wouter";
 import { useAuth } from "@/contexts/auth-context";
 import { LoginModal } from "@/components/login-modal";
 import { Header } from "@/components/header";
@@ -8,18 +9,23 @@ import { AdminModals } from "@/components/admin-modals";
 import { EvaluationConfirmationModal } from "@/components/evaluation-confirmation-modal";
 import { PeerList } from "@/components/peer-list";
 import { ScreenSharePanel } from "@/components/screen-share-panel";
+import { RoomPanel } from "@/components/room-panel";
+import { JoinRoom } from "@/components/join-room";
+import { usePresentation } from "@/contexts/presentation-context";
 
 export default function Home() {
   const { user, isLoading } = useAuth();
+  const { room, activeRubric, screenShareActive, canShareScreen } = usePresentation();
+  const [, setLocation] = useLocation();
   
   const [teamUploadOpen, setTeamUploadOpen] = useState(false);
   const [presentationControlOpen, setPresentationControlOpen] = useState(false);
   const [feedbackSummaryOpen, setFeedbackSummaryOpen] = useState(false);
   const [confirmationOpen, setConfirmationOpen] = useState(false);
+  const [rubricManagerOpen, setRubricManagerOpen] = useState(false);
+  const [rosterOpen, setRosterOpen] = useState(false);
   const [submittedEvaluation, setSubmittedEvaluation] = useState<{
-    technicalContent: number;
-    presentationSkills: number;
-    projectDemo: number;
+    scores: Record<string, number>;
   } | null>(null);
 
   if (isLoading) {
@@ -35,6 +41,11 @@ export default function Home() {
     return <LoginModal />;
   }
 
+  // Presenter devices only ever see their own sharing page
+  if (user.isPresenterDevice) {
+    return <Redirect to="/present" />;
+  }
+
   // Render different layouts for admin vs peer
   if (user.isAdmin) {
     return (
@@ -45,6 +56,13 @@ export default function Home() {
         
         <main className="flex-grow flex flex-col p-6">
           <div className="flex flex-col space-y-6 max-w-4xl mx-auto w-full">
+            {/* The presenting team's screen, when one of them is sharing */}
+            {screenShareActive && (
+              <div className="aspect-video flex rounded-lg overflow-hidden border shadow-sm">
+                <PresentationViewer />
+              </div>
+            )}
+            
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div className="md:col-span-2">
                 <div className="bg-card rounded-lg border shadow-sm p-6 h-full">
@@ -89,11 +107,71 @@ export default function Home() {
                       </svg>
                       <span className="font-medium">View Feedback</span>
                     </button>
+                    
+                    <button 
+                      onClick={() => setRubricManagerOpen(true)}
+                      className="flex flex-col items-center justify-center bg-muted hover:bg-muted/80 rounded-lg p-6 transition-colors"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mb-3">
+                        <path d="M9 11l3 3L22 4"></path>
+                        <path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11"></path>
+                      </svg>
+                      <span className="font-medium">Manage Rubrics</span>
+                    </button>
+                    
+                    <button 
+                      onClick={() => setRosterOpen(true)}
+                      className="flex flex-col items-center justify-center bg-muted hover:bg-muted/80 rounded-lg p-6 transition-colors"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mb-3">
+                        <path d="M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2"></path>
+                        <rect x="8" y="2" width="8" height="4" rx="1" ry="1"></rect>
+                        <path d="M9 12h6"></path>
+                        <path d="M9 16h6"></path>
+                      </svg>
+                      <span className="font-medium">Student Roster</span>
+                    </button>
+                    
+                    <button 
+                      onClick={() => setLocation("/sessions")}
+                      className="flex flex-col items-center justify-center bg-muted hover:bg-muted/80 rounded-lg p-6 transition-colors"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mb-3">
+                        <path d="M3 12a9 9 0 1 0 3-6.7L3 8"></path>
+                        <path d="M3 3v5h5"></path>
+                        <path d="M12 7v5l4 2"></path>
+                      </svg>
+                      <span className="font-medium">Session History</span>
+                    </button>
+                    
+                    <button 
+                      onClick={() => setLocation("/leaderboard")}
+                      className="flex flex-col items-center justify-center bg-muted hover:bg-muted/80 rounded-lg p-6 transition-colors"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mb-3">
+                        <line x1="18" y1="20" x2="18" y2="10"></line>
+                        <line x1="12" y1="20" x2="12" y2="4"></line>
+                        <line x1="6" y1="20" x2="6" y2="14"></line>
+                      </svg>
+                      <span className="font-medium">Leaderboard</span>
+                    </button>
+                    
+                    <button 
+                      onClick={() => setLocation("/grades")}
+                      className="flex flex-col items-center justify-center bg-muted hover:bg-muted/80 rounded-lg p-6 transition-colors"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="mb-3">
+                        <path d="M22 10v6M2 10l10-5 10 5-10 5z"></path>
+                        <path d="M6 12v5c3 3 9 3 12 0v-5"></path>
+                      </svg>
+                      <span className="font-medium">Grade Report</span>
+                    </button>
                   </div>
                 </div>
               </div>
               
               <div className="md:col-span-1 space-y-6">
+                <RoomPanel />
                 <PeerList />
                 <ScreenSharePanel />
               </div>
@@ -109,6 +187,10 @@ export default function Home() {
           setPresentationControlOpen={setPresentationControlOpen}
           feedbackSummaryOpen={feedbackSummaryOpen}
           setFeedbackSummaryOpen={setFeedbackSummaryOpen}
+          rubricManagerOpen={rubricManagerOpen}
+          setRubricManagerOpen={setRubricManagerOpen}
+          rosterOpen={rosterOpen}
+          setRosterOpen={setRosterOpen}
         />
       </div>
     );
@@ -117,19 +199,30 @@ export default function Home() {
   // Peer view
   return (
     <div className="min-h-screen flex flex-col">
-      <Header 
-        onUploadTeams={() => {}}
-      />
+      <Header />
+      
+      {room && canShareScreen && (
+        <div className="p-6 pb-0 w-full max-w-md">
+          <ScreenSharePanel />
+        </div>
+      )}
       
-      <main className="flex-grow flex flex-col md:flex-row">
-        <PresentationViewer />
-        <EvaluationPanel />
-      </main>
+      {room ? (
+        <main className="flex-grow flex flex-col md:flex-row">
+          <PresentationViewer />
+          <EvaluationPanel />
+        </main>
+      ) : (
+        <main className="flex-grow flex flex-col">
+          <JoinRoom />
+        </main>
+      )}
       
       {/* Evaluation Confirmation Modal */}
       <EvaluationConfirmationModal 
         open={confirmationOpen}
         setOpen={setConfirmationOpen}
+        criteria={activeRubric?.criteria ?? []}
         evaluation={submittedEvaluation}
       />
     </div>
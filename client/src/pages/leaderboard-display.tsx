@@ -0,0 +1,75 @@
+import { useQuery } from "@tanstack/react-query";
+import { Trophy } from "lucide-react";
+import { useAuth } from "@/contexts/auth-context";
+import { LoginModal } from "@/components/login-modal";
+import type { Leaderboard } from "@shared/scoring";
+
+// How often the projector picks up new results and visibility changes
+const REFRESH_INTERVAL_MS = 5000;
+
+// Full-screen ranking for a projector. It never shows results while the
+// leaderboard is hidden, even when an admin is logged in on the projector.
+export default function LeaderboardDisplay() {
+  const { user, isLoading: authLoading } = useAuth();
+
+  const { data } = useQuery<Leaderboard>({
+    queryKey: ["/api/leaderboard"],
+    enabled: !!user,
+    staleTime: 0,
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <LoginModal />;
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white flex flex-col p-12">
+      <h1 className="text-5xl font-bold flex items-center gap-4 mb-10">
+        <Trophy className="h-12 w-12 text-amber-400" />
+        Leaderboard
+      </h1>
+
+      {!data || !data.visible ? (
+        <div className="flex-grow flex items-center justify-center">
+          <p className="text-3xl text-slate-400">Results will be revealed soon.</p>
+        </div>
+      ) : data.entries.length === 0 ? (
+        <div className="flex-grow flex items-center justify-center">
+          <p className="text-3xl text-slate-400">No results yet.</p>
+        </div>
+      ) : (
+        <ol className="space-y-4">
+          {data.entries.map(entry => (
+            <li
+              key={entry.teamId}
+              className={`flex items-center gap-8 rounded-xl px-8 py-5 ${
+                entry.rank === 1 ? "bg-amber-500/20 ring-2 ring-amber-400" : "bg-slate-800"
+              }`}
+            >
+              <span className="text-5xl font-bold w-16 text-center">{entry.rank}</span>
+              <div className="flex-grow min-w-0">
+                <div className="text-3xl font-semibold truncate">{entry.teamName}</div>
+                <div className="text-xl text-slate-400 truncate">{entry.projectTitle}</div>
+              </div>
+              <div className="text-right">
+                <div className="text-5xl font-bold tabular-nums">{entry.overall.toFixed(1)}</div>
+                <div className="text-lg text-slate-400">
+                  {entry.evaluatorCount} evaluator{entry.evaluatorCount === 1 ? "" : "s"}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { MonitorPlay } from "lucide-react";
+import { AdminPage } from "@/components/admin-page";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Leaderboard as LeaderboardData } from "@shared/scoring";
+import type { EventSettings } from "@shared/schema";
+
+export default function Leaderboard() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const { data, isLoading, error } = useQuery<LeaderboardData>({
+    queryKey: ["/api/leaderboard"],
+    staleTime: 0,
+  });
+
+  const updateSettings = async (updates: Partial<EventSettings>) => {
+    try {
+      await apiRequest("PUT", "/api/settings", updates);
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/leaderboard"] });
+    } catch (error) {
+      console.error("Leaderboard setting error:", error);
+      toast({
+        title: "Failed to update setting",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <AdminPage
+      title="Leaderboard"
+      actions={
+        <Button variant="outline" asChild>
+          <a href="/leaderboard/display" target="_blank" rel="noreferrer">
+            <MonitorPlay className="h-4 w-4 mr-1" />
+            Projector View
+          </a>
+        </Button>
+      }
+    >
+      {data && (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="flex items-center justify-between space-x-4">
+                <div>
+                  <label htmlFor="leaderboard-visible" className="text-sm font-medium">
+                    Show leaderboard
+                  </label>
+                  <p className="text-xs text-muted-foreground">
+                    {data.visible
+                      ? "Results are visible on the projector view"
+                      : "Hidden from everyone except admins until results are final"}
+                  </p>
+                </div>
+                <Switch
+                  id="leaderboard-visible"
+                  checked={data.visible}
+                  onCheckedChange={(leaderboardVisible) => updateSettings({ leaderboardVisible })}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Break ties by</label>
+                <Select
+                  value={data.tieBreak}
+                  onValueChange={(value) => updateSettings({
+                    leaderboardTieBreak: value as EventSettings["leaderboardTieBreak"],
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="evaluatorCount">Most evaluators</SelectItem>
+                    <SelectItem value="lowerBound">Highest confidence lower bound</SelectItem>
+                    {data.criteria.map(criterion => (
+                      <SelectItem key={criterion.key} value={`criterion:${criterion.key}`}>
+                        Highest {criterion.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading leaderboard...</p>
+          ) : error ? (
+            <p className="text-sm text-destructive text-center py-8">{(error as Error).message}</p>
+          ) : !data || data.entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No team has completed a presentation with evaluations yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>Team</TableHead>
+                  <TableHead className="text-right">Overall</TableHead>
+                  {data.criteria.map(criterion => (
+                    <TableHead key={criterion.key} className="text-right">{criterion.label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Evaluators</TableHead>
+                  <TableHead className="text-right">95% CI</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.entries.map(entry => (
+                  <TableRow
+                    key={entry.teamId}
+                    className="cursor-pointer"
+                    onClick={() => setLocation(`/sessions/${entry.sessionId}`)}
+                  >
+                    <TableCell className="font-semibold">{entry.rank}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{entry.teamName}</div>
+                      <div className="text-xs text-muted-foreground">{entry.projectTitle}</div>
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">{entry.overall.toFixed(1)}</TableCell>
+                    {data.criteria.map(criterion => (
+                      <TableCell key={criterion.key} className="text-right">
+                        {entry.criteria[criterion.key] !== undefined
+                          ? `${entry.criteria[criterion.key].toFixed(1)}/${entry.scales[criterion.key].maxScore}`
+                          : "—"}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right">{entry.evaluatorCount}</TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {entry.confidenceInterval
+                        ? `${entry.confidenceInterval.lower.toFixed(1)}–${entry.confidenceInterval.upper.toFixed(1)}`
+                        : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </AdminPage>
+  );
+}
@@ -0,0 +1,143 @@
+import { Fragment } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, Redirect } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import { useAuth } from "@/contexts/auth-context";
+import { Header } from "@/components/header";
+import { LoginModal } from "@/components/login-modal";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatDateTime } from "@/lib/format";
+import { describeFeedbackSource } from "@shared/feedback";
+import type { PublishedTeamFeedback } from "@shared/schema";
+
+// Feedback on the signed-in student's own presentations, once released
+export default function MyFeedback() {
+  const { user, isLoading: isAuthLoading } = useAuth();
+
+  const { data, isLoading, error } = useQuery<PublishedTeamFeedback[]>({
+    queryKey: ["/api/my-feedback"],
+    enabled: !!user && !user.isAdmin,
+    staleTime: 0,
+  });
+
+  if (isAuthLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <LoginModal />;
+  }
+
+  if (user.isAdmin) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow flex flex-col p-6">
+        <div className="flex flex-col space-y-6 max-w-3xl mx-auto w-full">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" asChild>
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4" />
+                <span className="sr-only">Back</span>
+              </Link>
+            </Button>
+            <h2 className="text-xl font-semibold">My Team's Feedback</h2>
+          </div>
+
+          {isLoading || error || !data ? (
+            <p className={`text-sm text-center py-8 ${error ? "text-destructive" : "text-muted-foreground"}`}>
+              {error ? (error as Error).message : "Loading feedback..."}
+            </p>
+          ) : data.length === 0 ? (
+            <Card>
+              <CardContent className="py-8 text-center text-sm text-muted-foreground">
+                Your team's feedback has not been released yet. It appears here once an instructor
+                has reviewed and published it.
+              </CardContent>
+            </Card>
+          ) : (
+            data.map(entry => <FeedbackCard key={entry.sessionId} entry={entry} />)
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+function FeedbackCard({ entry }: { entry: PublishedTeamFeedback }) {
+  const { summary, criteria, averages, comments } = entry;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{entry.team.name}: {entry.team.projectTitle}</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Presented {formatDateTime(entry.presentedAt)} · {entry.evaluatorCount} peer
+          {entry.evaluatorCount === 1 ? " evaluation" : " evaluations"} · released {formatDateTime(summary.publishedAt)}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <h3 className="text-sm font-medium mb-2">Score Breakdown</h3>
+          {entry.evaluatorCount > 0 ? (
+            <div className="text-sm grid grid-cols-2 gap-2 max-w-sm">
+              {criteria.map(criterion => (
+                <Fragment key={criterion.key}>
+                  <div>{criterion.label}:</div>
+                  <div className="font-medium">
+                    {(averages.criteria[criterion.key] ?? 0).toFixed(1)}/{criterion.maxScore}
+                  </div>
+                </Fragment>
+              ))}
+              <div className="font-medium pt-1">Weighted Overall:</div>
+              <div className="font-medium pt-1">{averages.overall.toFixed(1)}/10</div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground italic">No peer evaluations were submitted.</p>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium">{describeFeedbackSource(summary.provider).title}</h3>
+          <PointList title="Strengths" className="text-secondary" points={summary.strengths} />
+          <PointList title="Areas for Improvement" className="text-accent" points={summary.improvements} />
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <h3 className="text-sm font-medium">Peer Comments</h3>
+            <p className="text-xs text-muted-foreground">Comments are anonymous and not in submission order.</p>
+          </div>
+          <PointList title="What went well" className="text-secondary" points={comments.positive} />
+          <PointList title="What could be better" className="text-accent" points={comments.negative} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PointList({ title, className, points }: { title: string; className: string; points: string[] }) {
+  return (
+    <div>
+      <h4 className={`text-sm font-medium mb-1 ${className}`}>{title}</h4>
+      {points.length > 0 ? (
+        <ul className="list-disc pl-6 text-sm space-y-1">
+          {points.map((point, index) => (
+            <li key={index}>{point}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground italic">None mentioned by evaluators.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { Redirect, useLocation } from "wouter";
+import { MonitorOff } from "lucide-react";
+import { useAuth } from "@/contexts/auth-context";
+import { usePresentation } from "@/contexts/presentation-context";
+import { Header } from "@/components/header";
+import { ScreenSharePanel } from "@/components/screen-share-panel";
+import { Card, CardContent } from "@/components/ui/card";
+
+// Page behind the presenter device link. The token in the link signs the
+// device in for one presentation; the server places it in the room.
+export default function Present() {
+  const { user, isLoading, loginAsPresenter } = useAuth();
+  const { room, activeTeam, canShareScreen, connected } = usePresentation();
+  const [, setLocation] = useLocation();
+  const [token] = useState(() => new URLSearchParams(window.location.search).get("token"));
+  const [isLoggingIn, setIsLoggingIn] = useState(!!token);
+  // Once the link ends the server also closes the device's connection
+  const [wasAllowed, setWasAllowed] = useState(false);
+
+  useEffect(() => {
+    if (canShareScreen) setWasAllowed(true);
+  }, [canShareScreen]);
+
+  // A device may be opened with a newer link, but an admin or student who
+  // opens one is not signed out of their own account
+  const canUseToken = !!token && (!user || !!user.isPresenterDevice);
+
+  useEffect(() => {
+    if (isLoading || !isLoggingIn) return;
+    if (!canUseToken) {
+      setIsLoggingIn(false);
+      return;
+    }
+
+    loginAsPresenter(token!).then((success) => {
+      setIsLoggingIn(false);
+      // Keep the token out of the address bar once it has been used
+      if (success) setLocation("/present", { replace: true });
+    });
+  }, [isLoading, isLoggingIn]);
+
+  if (isLoading || isLoggingIn) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user?.isPresenterDevice) {
+    if (!user || !token) {
+      return user ? <Redirect to="/" /> : <Notice message="This presenter link is not valid. Ask the admin for a new one." />;
+    }
+    return <Notice message="Log out first to use this browser as the presenter device." />;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow flex flex-col p-6">
+        <div className="flex flex-col space-y-6 max-w-md mx-auto w-full">
+          <div>
+            <h2 className="text-xl font-semibold">{room?.name ?? "Presenter Device"}</h2>
+            {activeTeam && (
+              <p className="text-sm text-muted-foreground">
+                {activeTeam.name}: {activeTeam.projectTitle}
+              </p>
+            )}
+          </div>
+
+          {canShareScreen ? (
+            <ScreenSharePanel />
+          ) : connected || wasAllowed ? (
+            <Notice message="This presenter link has ended. Ask the admin for a new one." />
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-8">Connecting...</p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
+
+function Notice({ message }: { message: string }) {
+  return (
+    <div className="flex items-center justify-center min-h-[50vh]">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6 flex items-center gap-3 text-sm text-muted-foreground">
+          <MonitorOff className="h-6 w-6 shrink-0" />
+          {message}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
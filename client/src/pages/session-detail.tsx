@@ -0,0 +1,496 @@
+import { Fragment, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Download, Pencil, RefreshCw, Video } from "lucide-react";
+import { AdminPage } from "@/components/admin-page";
+import { FeedbackEditor } from "@/components/feedback-editor";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatClock, formatDateTime, formatDuration } from "@/lib/format";
+import { weightedOverall } from "@shared/scoring";
+import { describeFeedbackSource } from "@shared/feedback";
+import type {
+  EvaluationWithPeer,
+  FeedbackJob,
+  PresentationSession,
+  RubricCriterion,
+  SessionDetail as SessionDetailData,
+  SessionEventType,
+  SessionRecording
+} from "@shared/schema";
+
+export default function SessionDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const [reviewOpen, setReviewOpen] = useState(false);
+
+  const { data, isLoading, error } = useQuery<SessionDetailData>({
+    queryKey: [`/api/sessions/${id}`],
+    staleTime: 0,
+  });
+
+  // Job progress arrives over the socket, which refreshes this query
+  const handleRegenerate = async () => {
+    try {
+      await apiRequest("POST", `/api/sessions/${id}/feedback`);
+      queryClient.invalidateQueries({ queryKey: [`/api/sessions/${id}`] });
+    } catch (error) {
+      console.error("Regenerate feedback error:", error);
+      toast({
+        title: "Failed to regenerate feedback",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading || error || !data) {
+    return (
+      <AdminPage title="Session Results" backHref="/sessions">
+        <p className={`text-sm text-center py-8 ${error ? "text-destructive" : "text-muted-foreground"}`}>
+          {error ? (error as Error).message : "Loading session..."}
+        </p>
+      </AdminPage>
+    );
+  }
+
+  const { session, team, room, rubric, evaluations, selfAssessments, averages, feedback, feedbackJob, recordings } = data;
+  const criteria = rubric?.criteria ?? [];
+  const isGenerating = feedbackJob?.status === "queued" || feedbackJob?.status === "running";
+
+  return (
+    <AdminPage
+      title="Session Results"
+      backHref="/sessions"
+      actions={
+        <Button asChild>
+          <a href={`/api/sessions/${session.id}/report.pdf`} download>
+            <Download className="h-4 w-4 mr-1" />
+            Download PDF
+          </a>
+        </Button>
+      }
+    >
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {team ? `${team.name}: ${team.projectTitle}` : "Deleted team"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-muted-foreground">Started</div>
+              <div className="font-medium">{formatDateTime(session.startTime)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Duration</div>
+              <div className="font-medium">
+                {session.endTime
+                  ? formatDuration(session.startTime, session.endTime)
+                  : <Badge variant="secondary">In progress</Badge>}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Room</div>
+              <div className="font-medium">{room ? `${room.name} · ${room.code}` : "—"}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Rubric</div>
+              <div className="font-medium">{rubric?.name ?? "—"}</div>
+            </div>
+          </div>
+          {team && team.members.length > 0 && (
+            <div className="mt-4 text-sm">
+              <div className="text-muted-foreground mb-1">Members</div>
+              <div className="flex flex-wrap gap-2">
+                {team.members.map(member => (
+                  <Badge key={member.usn} variant="outline">
+                    {member.name} ({member.usn})
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Criterion Averages</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {averages && evaluations.length > 0 ? (
+              <div className="text-sm grid grid-cols-2 gap-2">
+                {criteria.map(criterion => (
+                  <Fragment key={criterion.key}>
+                    <div>{criterion.label}:</div>
+                    <div className="font-medium">
+                      {(averages.criteria[criterion.key] ?? 0).toFixed(1)}/{criterion.maxScore}
+                    </div>
+                  </Fragment>
+                ))}
+                <div className="font-medium pt-1">Weighted Overall:</div>
+                <div className="font-medium pt-1">{averages.overall.toFixed(1)}/10</div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground italic">No peer evaluations were submitted.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-base">
+              {feedback ? describeFeedbackSource(feedback.provider).title : "Feedback Summary"}
+            </CardTitle>
+            <div className="flex space-x-2">
+              {feedback && (
+                <Button size="sm" variant="outline" onClick={() => setReviewOpen(true)}>
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Review
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleRegenerate}
+                disabled={!session.endTime || evaluations.length === 0 || isGenerating}
+              >
+                <RefreshCw className={`h-4 w-4 mr-1 ${isGenerating ? "animate-spin" : ""}`} />
+                {feedback ? "Regenerate" : "Generate"}
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {feedbackJob && <FeedbackJobStatus job={feedbackJob} />}
+            {feedback ? (
+              <>
+                <div className="text-sm">
+                  <span className="font-medium">Overall Score: </span>
+                  <span>{feedback.overallScore / 10}/10</span>
+                  <span className="text-muted-foreground">
+                    {" "}· generated {formatDateTime(feedback.generatedAt)} by {feedback.provider} ({feedback.model})
+                  </span>
+                </div>
+                <div className="text-sm flex items-center gap-2">
+                  <span className="text-muted-foreground">
+                    Version {feedback.version}{feedback.editedBy !== null && ", edited"}
+                  </span>
+                  {feedback.publishedVersion === null ? (
+                    <Badge variant="outline">Not published</Badge>
+                  ) : feedback.publishedVersion === feedback.version ? (
+                    <Badge>Published</Badge>
+                  ) : (
+                    <Badge variant="secondary">Version {feedback.publishedVersion} is published</Badge>
+                  )}
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium text-secondary mb-1">Strengths</h4>
+                  {feedback.strengths.length > 0 ? (
+                    <ul className="list-disc pl-6 text-sm">
+                      {feedback.strengths.map((strength, index) => (
+                        <li key={index}>{strength}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-muted-foreground italic">None mentioned by evaluators.</p>
+                  )}
+                </div>
+                <div>
+                  <h4 className="text-sm font-medium text-accent mb-1">Areas for Improvement</h4>
+                  {feedback.improvements.length > 0 ? (
+                    <ul className="list-disc pl-6 text-sm">
+                      {feedback.improvements.map((improvement, index) => (
+                        <li key={index}>{improvement}</li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-muted-foreground italic">None mentioned by evaluators.</p>
+                  )}
+                </div>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground italic">No feedback was generated for this session.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {feedback && (
+        <Dialog open={reviewOpen} onOpenChange={setReviewOpen}>
+          <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Review Feedback</DialogTitle>
+              <DialogDescription>
+                Edit the summary before publishing it to {team ? team.name : "the presenting team"}.
+              </DialogDescription>
+            </DialogHeader>
+            <FeedbackEditor sessionId={session.id} />
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {recordings.length > 0 && <RecordingsCard session={session} recordings={recordings} />}
+
+      <EvaluationTable title={`Peer Evaluations (${evaluations.length})`} criteria={criteria} evaluations={evaluations} />
+
+      {selfAssessments.length > 0 && (
+        <EvaluationTable
+          title={`Self-Assessments (${selfAssessments.length})`}
+          criteria={criteria}
+          evaluations={selfAssessments}
+        />
+      )}
+    </AdminPage>
+  );
+}
+
+function FeedbackJobStatus({ job }: { job: FeedbackJob }) {
+  switch (job.status) {
+    case "queued":
+      return (
+        <div className="text-sm">
+          <Badge variant="secondary">Queued</Badge>
+          {job.attempts > 0 && (
+            <span className="text-muted-foreground">
+              {" "}Attempt {job.attempts} failed ({job.lastError}); retrying at {formatDateTime(job.runAt)}
+            </span>
+          )}
+        </div>
+      );
+    case "running":
+      return (
+        <div className="text-sm">
+          <Badge variant="secondary">Generating</Badge>
+          {job.attempts > 1 && <span className="text-muted-foreground"> Attempt {job.attempts}</span>}
+        </div>
+      );
+    case "failed":
+      return (
+        <div className="text-sm">
+          <Badge variant="destructive">Failed</Badge>
+          <span className="text-destructive"> {job.lastError}</span>
+        </div>
+      );
+    case "done":
+      // Done with an error means the provider gave up and comments were summarized instead
+      return job.lastError ? (
+        <p className="text-xs text-muted-foreground">
+          The feedback provider failed after {job.attempts} attempts ({job.lastError}), so the
+          summary was extracted from the peer comments instead.
+        </p>
+      ) : null;
+  }
+}
+
+const EVENT_LABELS: Record<SessionEventType, string> = {
+  timer_start: "Timer started",
+  timer_pause: "Timer paused",
+  timer_reset: "Timer reset",
+  evaluation_start: "Evaluation opened",
+};
+
+type RecordingMarker = {
+  // Seconds into the recording
+  offset: number;
+  label: string;
+  timerSeconds?: number;
+};
+
+// The session's timer and phase changes that fall within a recording
+function recordingMarkers(session: PresentationSession, recording: SessionRecording): RecordingMarker[] {
+  const start = new Date(recording.startedAt).getTime();
+  const end = recording.endedAt ? new Date(recording.endedAt).getTime() : Infinity;
+
+  const moments = [
+    ...session.events.map(event => ({
+      at: new Date(event.at).getTime(),
+      label: EVENT_LABELS[event.type],
+      timerSeconds: event.timerSeconds,
+    })),
+    ...(session.endTime ? [{ at: new Date(session.endTime).getTime(), label: "Presentation ended" }] : []),
+  ];
+
+  return moments
+    .filter(moment => moment.at >= start && moment.at <= end)
+    .sort((a, b) => a.at - b.at)
+    .map(({ at, ...moment }) => ({ ...moment, offset: (at - start) / 1000 }));
+}
+
+function RecordingsCard({ session, recordings }: { session: PresentationSession; recordings: SessionRecording[] }) {
+  const [selectedId, setSelectedId] = useState(recordings[0].id);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const selected = recordings.find(recording => recording.id === selectedId) ?? recordings[0];
+  const markers = recordingMarkers(session, selected);
+
+  const seek = (offset: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    video.currentTime = offset;
+    video.play().catch(() => undefined);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base flex items-center">
+          <Video className="h-4 w-4 mr-2" />
+          Recordings ({recordings.length})
+        </CardTitle>
+        <Button size="sm" variant="outline" asChild>
+          <a href={`/api/recordings/${selected.id}/video`} download>
+            <Download className="h-4 w-4 mr-1" />
+            Download
+          </a>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recordings.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {recordings.map((recording, index) => (
+              <Button
+                key={recording.id}
+                size="sm"
+                variant={recording.id === selected.id ? "default" : "outline"}
+                onClick={() => setSelectedId(recording.id)}
+              >
+                Part {index + 1}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-2 bg-black rounded-md overflow-hidden">
+            <video
+              key={selected.id}
+              ref={videoRef}
+              src={`/api/recordings/${selected.id}/video`}
+              controls
+              preload="metadata"
+              className="w-full aspect-video"
+            />
+          </div>
+          <div className="text-sm space-y-3">
+            <div className="text-muted-foreground">
+              Started {formatDateTime(selected.startedAt)} · {(selected.sizeBytes / (1024 * 1024)).toFixed(1)} MB
+              {!selected.endedAt && (
+                <Badge variant={session.isActive ? "secondary" : "outline"} className="ml-2">
+                  {session.isActive ? "Recording" : "Incomplete upload"}
+                </Badge>
+              )}
+            </div>
+            <div>
+              <h4 className="font-medium mb-1">Markers</h4>
+              {markers.length > 0 ? (
+                <ul className="space-y-1 max-h-64 overflow-y-auto">
+                  {markers.map((marker, index) => (
+                    <li key={index}>
+                      <button
+                        className="w-full text-left rounded px-2 py-1 hover:bg-muted flex items-baseline gap-2"
+                        onClick={() => seek(marker.offset)}
+                      >
+                        <span className="font-mono text-xs">{formatClock(marker.offset)}</span>
+                        <span>{marker.label}</span>
+                        {marker.timerSeconds !== undefined && (
+                          <span className="text-xs text-muted-foreground">at {formatClock(marker.timerSeconds)}</span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-muted-foreground italic">No timer or phase changes during this recording.</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function EvaluationTable({
+  title,
+  criteria,
+  evaluations,
+}: {
+  title: string;
+  criteria: RubricCriterion[];
+  evaluations: EvaluationWithPeer[];
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {evaluations.length === 0 ? (
+          <p className="text-sm text-muted-foreground italic">None submitted.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Evaluator</TableHead>
+                {criteria.map(criterion => (
+                  <TableHead key={criterion.key} className="text-right">{criterion.label}</TableHead>
+                ))}
+                <TableHead className="text-right">Overall</TableHead>
+                <TableHead>Comments</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {evaluations.map(evaluation => (
+                <TableRow key={evaluation.id}>
+                  <TableCell>
+                    <div className="font-medium">{evaluation.peer?.name ?? "Unknown peer"}</div>
+                    {evaluation.peer && (
+                      <div className="text-xs text-muted-foreground">{evaluation.peer.usn}</div>
+                    )}
+                  </TableCell>
+                  {criteria.map(criterion => (
+                    <TableCell key={criterion.key} className="text-right">
+                      {evaluation.scores[criterion.key] ?? "—"}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-medium">
+                    {weightedOverall(criteria, evaluation.scores).toFixed(1)}
+                  </TableCell>
+                  <TableCell className="text-xs max-w-xs">
+                    {evaluation.positivePoints && (
+                      <p><span className="text-secondary font-medium">+</span> {evaluation.positivePoints}</p>
+                    )}
+                    {evaluation.negativePoints && (
+                      <p><span className="text-accent font-medium">−</span> {evaluation.negativePoints}</p>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
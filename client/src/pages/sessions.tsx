@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { ChevronLeft, ChevronRight, Download } from "lucide-react";
+import { AdminPage } from "@/components/admin-page";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDateTime, formatDuration } from "@/lib/format";
+import type { SessionHistoryPage, Team } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+export default function Sessions() {
+  const [, setLocation] = useLocation();
+  const [teamId, setTeamId] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(1);
+
+  const { data: teams = [] } = useQuery<Team[]>({
+    queryKey: ["/api/teams"],
+  });
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (teamId !== "all") params.set("teamId", teamId);
+  if (from) params.set("from", from);
+  if (to) params.set("to", to);
+
+  // Past sessions keep changing while an event runs, so always refetch
+  const { data, isLoading, error } = useQuery<SessionHistoryPage>({
+    queryKey: [`/api/sessions?${params}`],
+    staleTime: 0,
+  });
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <AdminPage
+      title="Session History"
+      actions={
+        <Button variant="outline" asChild>
+          <a href="/api/reports/event.pdf" download>
+            <Download className="h-4 w-4 mr-1" />
+            Event Report (PDF)
+          </a>
+        </Button>
+      }
+    >
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2 md:col-span-2">
+              <label className="text-sm font-medium">Team</label>
+              <Select value={teamId} onValueChange={updateFilter(setTeamId)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All teams</SelectItem>
+                  {teams.map(team => (
+                    <SelectItem key={team.id} value={team.id.toString()}>
+                      {team.name}: {team.projectTitle}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">From</label>
+              <Input type="date" value={from} onChange={(e) => updateFilter(setFrom)(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">To</label>
+              <Input type="date" value={to} onChange={(e) => updateFilter(setTo)(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading sessions...</p>
+          ) : error ? (
+            <p className="text-sm text-destructive text-center py-8">{(error as Error).message}</p>
+          ) : !data || data.sessions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No sessions match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Team</TableHead>
+                  <TableHead>Room</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead className="text-right">Evaluations</TableHead>
+                  <TableHead className="text-right">Overall</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.sessions.map(session => (
+                  <TableRow
+                    key={session.id}
+                    className="cursor-pointer"
+                    onClick={() => setLocation(`/sessions/${session.id}`)}
+                  >
+                    <TableCell>{formatDateTime(session.startTime)}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{session.team?.name ?? "Deleted team"}</div>
+                      {session.team && (
+                        <div className="text-xs text-muted-foreground">{session.team.projectTitle}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{session.room?.name ?? "—"}</TableCell>
+                    <TableCell>
+                      {session.endTime
+                        ? formatDuration(session.startTime, session.endTime)
+                        : <Badge variant="secondary">In progress</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">{session.evaluationCount}</TableCell>
+                    <TableCell className="text-right">
+                      {session.overallAverage !== null ? `${session.overallAverage.toFixed(1)}/10` : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {data && data.total > 0 && (
+            <div className="flex items-center justify-between pt-4">
+              <span className="text-sm text-muted-foreground">
+                {data.total} session{data.total === 1 ? "" : "s"}
+              </span>
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <span className="text-sm">Page {page} of {pageCount}</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pageCount}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </AdminPage>
+  );
+}
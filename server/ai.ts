@@ -1,47 +1,56 @@
 import OpenAI from "openai";
-import type {Evaluation, Team} from "@shared/schema";
-import dotenv from "dotenv";
-
-dotenv.config();
+import type {Evaluation, Rubric, Team} from "@shared/schema";
+import type { FeedbackSummary } from "@shared/protocol";
+import { calculateAverages, type AverageScores } from "@shared/scoring";
+import { config } from "./config";
+import { summarizeEvaluations } from "./summarizer";
 
 // The newest OpenAI model is "gpt-4o" which was released May 13, 2024
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+const DEFAULT_OPENAI_MODEL = "gpt-4o";
 
-export async function generateAIFeedback(
-  evaluations: Evaluation[],
-  team: Team
-): Promise<{
+type FeedbackPoints = {
   strengths: string[];
   improvements: string[];
-  overallScore: number;
-}> {
-  try {
-    // Prepare the evaluations data for the AI
-    const evaluationPrompt = evaluations.map((evaluation) => `
-Technical Content: ${evaluation.technicalContent}/10
-Presentation Skills: ${evaluation.presentationSkills}/10
-Project Demo: ${evaluation.projectDemo}/10
+};
+
+// Everything a provider gets to work from for one session
+type FeedbackInput = {
+  evaluations: Evaluation[];
+  team: Team;
+  rubric: Rubric;
+  averages: AverageScores;
+};
+
+export interface FeedbackProvider {
+  name: string;
+  model: string;
+  generate(input: FeedbackInput): Promise<FeedbackPoints>;
+}
+
+function buildPrompt({ evaluations, team, rubric, averages }: FeedbackInput): string {
+  // Prepare the evaluations data for the AI
+  const evaluationPrompt = evaluations.map((evaluation) => `
+${rubric.criteria.map(c => `${c.label}: ${evaluation.scores[c.key] ?? "Not scored"}/${c.maxScore}`).join("\n")}
 Positive Points: ${evaluation.positivePoints || "None provided"}
 Areas for Improvement: ${evaluation.negativePoints || "None provided"}
 `).join("\n---\n");
 
-    // Calculate average scores
-    const avgTechnicalContent = evaluations.reduce((sum, e) => sum + e.technicalContent, 0) / evaluations.length;
-    const avgPresentationSkills = evaluations.reduce((sum, e) => sum + e.presentationSkills, 0) / evaluations.length;
-    const avgProjectDemo = evaluations.reduce((sum, e) => sum + e.projectDemo, 0) / evaluations.length;
-    const avgOverall = Math.round((avgTechnicalContent + avgPresentationSkills + avgProjectDemo) / 3 * 10);
+  const criteriaPrompt = rubric.criteria.map(c =>
+    `- ${c.label} (scale ${c.minScore}-${c.maxScore}, weight ${c.weight})${c.description ? `: ${c.description}` : ""}`
+  ).join("\n");
 
-    const prompt = `
+  return `
 You are a helpful presentation feedback analyzer. Below are peer evaluations for a team presentation.
 Team: ${team.name}
 Project: ${team.projectTitle}
 Team Members: ${team.members.map(m => `${m.name} (${m.usn})`).join(", ")}
 
+Rubric "${rubric.name}":
+${criteriaPrompt}
+
 Average Scores:
-- Technical Content: ${avgTechnicalContent.toFixed(1)}/10
-- Presentation Skills: ${avgPresentationSkills.toFixed(1)}/10
-- Project Demo: ${avgProjectDemo.toFixed(1)}/10
-- Overall: ${(avgOverall / 10).toFixed(1)}/10
+${rubric.criteria.map(c => `- ${c.label}: ${averages.criteria[c.key].toFixed(1)}/${c.maxScore}`).join("\n")}
+- Weighted Overall: ${averages.overall.toFixed(1)}/10
 
 Individual Peer Evaluations:
 ${evaluationPrompt}
@@ -54,9 +63,35 @@ Based on these evaluations, generate a concise, constructive feedback summary in
 
 Each point should be a complete, specific, and actionable sentence. Focus on patterns across multiple evaluations.
 `;
+}
+
+// Talks to OpenAI, or to any server implementing its chat completions API
+// when a base URL is given (vLLM, Ollama, LM Studio, ...)
+class OpenAIProvider implements FeedbackProvider {
+  private client: OpenAI | null = null;
+
+  constructor(
+    readonly name: string,
+    readonly model: string,
+    private readonly apiKey: string | undefined,
+    private readonly baseUrl?: string
+  ) {}
+
+  // Built on first use so a missing key only fails the request, not startup
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        // Local servers usually ignore the key, but the SDK insists on one
+        apiKey: this.apiKey ?? (this.baseUrl ? "not-needed" : undefined),
+        baseURL: this.baseUrl,
+      });
+    }
+    return this.client;
+  }
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+  async generate(input: FeedbackInput): Promise<FeedbackPoints> {
+    const response = await this.getClient().chat.completions.create({
+      model: this.model,
       messages: [
         {
           role: "system",
@@ -64,7 +99,7 @@ Each point should be a complete, specific, and actionable sentence. Focus on pat
         },
         {
           role: "user",
-          content: prompt
+          content: buildPrompt(input)
         }
       ],
       response_format: { type: "json_object" }
@@ -72,32 +107,119 @@ Each point should be a complete, specific, and actionable sentence. Focus on pat
 
     const result = JSON.parse(response.choices[0].message.content || '{"strengths":[],"improvements":[]}');
 
+    if (!Array.isArray(result.strengths) || !Array.isArray(result.improvements)) {
+      throw new Error("Model response is missing strengths or improvements");
+    }
+
     return {
-      strengths: result.strengths,
-      improvements: result.improvements,
-      overallScore: avgOverall
-    };
-  } catch (error) {
-    console.error("AI feedback generation error:", error);
-    
-    // Fallback to basic feedback if AI fails
-    return {
-      strengths: [
-        "The presentation demonstrated good technical understanding.",
-        "The team communicated their ideas clearly.",
-        "The project demo showed practical application of concepts."
-      ],
-      improvements: [
-        "Consider adding more visual elements to enhance engagement.",
-        "Practice time management to cover all key points.",
-        "Provide more context about the problem being solved."
-      ],
-      overallScore: Math.round(
-        evaluations.reduce(
-          (sum, e) => sum + (e.technicalContent + e.presentationSkills + e.projectDemo) / 3, 
-          0
-        ) / evaluations.length * 10
-      )
+      strengths: result.strengths.map(String),
+      improvements: result.improvements.map(String),
     };
   }
 }
+
+// Rule-based feedback from the criterion averages alone. Needs no network
+// access and always gives the same output for the same evaluations.
+class OfflineProvider implements FeedbackProvider {
+  readonly name = "offline";
+  readonly model = "criteria-v1";
+
+  async generate({ rubric, averages }: FeedbackInput): Promise<FeedbackPoints> {
+    // Compare criteria on a common 0-1 scale, ties broken by rubric order
+    const ranked = rubric.criteria
+      .map((criterion, index) => {
+        const average = averages.criteria[criterion.key] ?? criterion.minScore;
+        const range = criterion.maxScore - criterion.minScore;
+        const ratio = range > 0 ? (average - criterion.minScore) / range : 1;
+        return { criterion, average, ratio, index };
+      })
+      .sort((a, b) => b.ratio - a.ratio || a.index - b.index);
+
+    const describe = ({ criterion, average }: typeof ranked[number]) =>
+      `${criterion.label} (${average.toFixed(1)}/${criterion.maxScore})`;
+
+    const strong = ranked.filter(entry => entry.ratio >= 0.7).slice(0, 3);
+    const weak = ranked.filter(entry => entry.ratio < 0.7).reverse().slice(0, 3);
+
+    const strengths = strong.length > 0
+      ? strong.map(entry => `Evaluators rated ${describe(entry)} highly.`)
+      : [`${describe(ranked[0])} was the strongest area of the presentation.`];
+
+    const improvements = weak.length > 0
+      ? weak.map(entry => `${describe(entry)} has the most room for improvement.`)
+      : [`Every criterion scored well; ${describe(ranked[ranked.length - 1])} was the lowest and could still be polished.`];
+
+    return { strengths, improvements };
+  }
+}
+
+// Picks representative sentences out of the evaluators' own comments rather
+// than writing new text. See summarizer.ts.
+class ExtractiveProvider implements FeedbackProvider {
+  readonly name = "extractive";
+  readonly model = "tfidf-v1";
+
+  async generate({ evaluations }: FeedbackInput): Promise<FeedbackPoints> {
+    return summarizeEvaluations(evaluations);
+  }
+}
+
+const extractiveProvider = new ExtractiveProvider();
+
+export function createFeedbackProvider(): FeedbackProvider {
+  const { provider, model, apiKey, baseUrl } = config.ai;
+
+  switch (provider) {
+    case "openai":
+      return new OpenAIProvider("openai", model ?? DEFAULT_OPENAI_MODEL, apiKey);
+    case "openai-compatible":
+      if (!baseUrl || !model) {
+        throw new Error('AI_PROVIDER "openai-compatible" needs both AI_BASE_URL and AI_MODEL');
+      }
+      return new OpenAIProvider("openai-compatible", model, apiKey, baseUrl);
+    case "offline":
+      return new OfflineProvider();
+    case "extractive":
+      return extractiveProvider;
+  }
+}
+
+const provider = createFeedbackProvider();
+
+async function summarize(
+  source: FeedbackProvider,
+  evaluations: Evaluation[],
+  team: Team,
+  rubric: Rubric
+): Promise<FeedbackSummary> {
+  const averages = calculateAverages(rubric.criteria, evaluations);
+  const result = await source.generate({ evaluations, team, rubric, averages });
+
+  return {
+    strengths: result.strengths,
+    improvements: result.improvements,
+    overallScore: Math.round(averages.overall * 10),
+    provider: source.name,
+    model: source.model,
+  };
+}
+
+// Summary from the configured provider. Throws when the provider fails so the
+// caller can retry; see generateFallbackFeedback for when it gives up.
+export async function generateAIFeedback(
+  evaluations: Evaluation[],
+  team: Team,
+  rubric: Rubric
+): Promise<FeedbackSummary> {
+  return summarize(provider, evaluations, team, rubric);
+}
+
+// Summarizes the actual comments instead, so a team still gets feedback that
+// reflects what their evaluators wrote when the provider is unavailable
+export async function generateFallbackFeedback(
+  evaluations: Evaluation[],
+  team: Team,
+  rubric: Rubric
+): Promise<FeedbackSummary> {
+  return summarize(extractiveProvider, evaluations, team, rubric);
+}
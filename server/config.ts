@@ -0,0 +1,129 @@
+import path from "path";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export type StorageDriver = "memory" | "postgres";
+
+// Pick the storage backend. STORAGE_DRIVER wins if set, otherwise
+// we use Postgres whenever a DATABASE_URL has been provisioned.
+function resolveStorageDriver(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER;
+
+  if (driver === "memory" || driver === "postgres") {
+    return driver;
+  }
+
+  if (driver) {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "memory" or "postgres"`);
+  }
+
+  return process.env.DATABASE_URL ? "postgres" : "memory";
+}
+
+export type AIProviderName = "openai" | "openai-compatible" | "offline" | "extractive";
+
+// Pick the feedback provider. AI_PROVIDER wins if set, otherwise OpenAI is
+// used when an API key is present and the offline provider when not.
+function resolveAIProvider(): AIProviderName {
+  const provider = process.env.AI_PROVIDER;
+
+  if (provider === "openai" || provider === "openai-compatible" || provider === "offline" || provider === "extractive") {
+    return provider;
+  }
+
+  if (provider) {
+    throw new Error(`Unknown AI_PROVIDER "${provider}", expected "openai", "openai-compatible", "offline" or "extractive"`);
+  }
+
+  return process.env.OPENAI_API_KEY ? "openai" : "offline";
+}
+
+// A whole number of at least 1 from the environment, or the default when unset
+function readPositiveInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive whole number, got "${raw}"`);
+  }
+
+  return value;
+}
+
+// Public STUN servers, used unless STUN_URLS says otherwise
+const DEFAULT_STUN_URLS = ["stun:stun.l.google.com:19302", "stun:stun1.l.google.com:19302"];
+
+// Comma-separated ICE server URLs. Unset gives the fallback; "none" or an
+// empty value gives no servers at all, e.g. for a LAN without internet.
+function readIceUrls(name: string, schemes: string[], fallback: string[]): string[] {
+  const raw = process.env[name];
+  if (raw === undefined) return fallback;
+  if (raw.trim() === "none") return [];
+
+  const urls = raw.split(",").map((url) => url.trim()).filter(Boolean);
+  const invalid = urls.find((url) => !schemes.some((scheme) => url.startsWith(scheme)));
+  if (invalid) {
+    throw new Error(`${name} entries must start with ${schemes.join(" or ")}, got "${invalid}"`);
+  }
+
+  return urls;
+}
+
+function resolveRtcConfig() {
+  const turnUrls = readIceUrls("TURN_URLS", ["turn:", "turns:"], []);
+  const turnSecret = process.env.TURN_SECRET;
+
+  // TURN is only offered with short-lived credentials derived from the secret
+  if (turnUrls.length > 0 && !turnSecret) {
+    throw new Error("TURN_URLS is set but TURN_SECRET is not");
+  }
+
+  return {
+    stunUrls: readIceUrls("STUN_URLS", ["stun:", "stuns:"], DEFAULT_STUN_URLS),
+    turnUrls,
+    // The TURN server's shared secret (coturn: static-auth-secret)
+    turnSecret,
+    // Seconds a set of TURN credentials stays valid
+    turnCredentialTtl: readPositiveInt("TURN_CREDENTIAL_TTL", 12 * 60 * 60),
+  };
+}
+
+export const config = {
+  storage: {
+    driver: resolveStorageDriver(),
+    databaseUrl: process.env.DATABASE_URL,
+  },
+  auth: {
+    // Account created on first run when no admin exists yet. Without a
+    // password one is generated and printed to the server log once.
+    bootstrapAdminUsername: process.env.ADMIN_USERNAME || "admin",
+    bootstrapAdminPassword: process.env.ADMIN_PASSWORD,
+  },
+  ai: {
+    provider: resolveAIProvider(),
+    // Defaults to gpt-4o for OpenAI; required for OpenAI-compatible servers
+    model: process.env.AI_MODEL,
+    // Endpoint of an OpenAI-compatible server, e.g. http://localhost:11434/v1
+    baseUrl: process.env.AI_BASE_URL,
+    apiKey: process.env.AI_API_KEY || process.env.OPENAI_API_KEY,
+  },
+  jobs: {
+    // How many feedback jobs run at the same time
+    feedbackWorkers: readPositiveInt("FEEDBACK_WORKERS", 1),
+    // Attempts at the configured provider before falling back to the
+    // extractive summary
+    feedbackMaxAttempts: readPositiveInt("FEEDBACK_MAX_ATTEMPTS", 3),
+    // Wait before the first retry, doubled for each one after that
+    feedbackRetryDelayMs: readPositiveInt("FEEDBACK_RETRY_DELAY_MS", 5000),
+  },
+  // ICE servers handed to browsers for screen sharing
+  rtc: resolveRtcConfig(),
+  recordings: {
+    // Screen share recordings are written here, one folder per session
+    dir: path.resolve(process.env.RECORDINGS_DIR || "recordings"),
+    // Largest single recording; uploads beyond it are refused
+    maxMegabytes: readPositiveInt("RECORDING_MAX_MB", 2048),
+  },
+};
@@ -0,0 +1,13 @@
+export type CsvCell = string | number | null | undefined;
+
+// Quote a field only when it contains a delimiter, quote or line break,
+// doubling any quotes inside it (RFC 4180)
+function formatCell(cell: CsvCell): string {
+  const value = cell === null || cell === undefined ? "" : String(cell);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// RFC 4180 CSV: CRLF line endings, including after the last record
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map(row => row.map(formatCell).join(",") + "\r\n").join("");
+}
@@ -0,0 +1,171 @@
+import type { FeedbackJob } from "@shared/schema";
+import type { FeedbackSummary } from "@shared/protocol";
+import { generateAIFeedback, generateFallbackFeedback } from "./ai";
+import { config } from "./config";
+import { saveFeedbackVersion } from "./feedback-versions";
+import { storage } from "./storage";
+
+// How often idle workers look for jobs whose retry delay has passed
+const POLL_INTERVAL_MS = 1000;
+
+// Longest wait between two attempts, however many have failed
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+type JobListener = (job: FeedbackJob) => void;
+
+const listeners = new Set<JobListener>();
+let activeJobs = 0;
+let draining = false;
+let pollTimer: NodeJS.Timeout | null = null;
+
+// Failures that retrying cannot fix, e.g. the session was deleted
+class PermanentJobError extends Error {}
+
+// Called with every job state change; returns an unsubscribe function
+export function onFeedbackJobUpdate(listener: JobListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notify(job: FeedbackJob) {
+  listeners.forEach((listener) => {
+    try {
+      listener(job);
+    } catch (error) {
+      console.error("Feedback job listener error:", error);
+    }
+  });
+}
+
+// Queue (re)generation of a session's feedback. A session has at most one
+// pending job, so asking again while one is queued or running returns it.
+export async function enqueueFeedbackJob(sessionId: number, requestedBy: number | null = null): Promise<FeedbackJob> {
+  const jobs = await storage.getFeedbackJobsBySessionId(sessionId);
+  const pending = jobs.find((job) => job.status === "queued" || job.status === "running");
+  if (pending) return pending;
+
+  const now = new Date();
+  const job = await storage.createFeedbackJob({
+    sessionId,
+    status: "queued",
+    runAt: now,
+    requestedBy,
+    createdAt: now,
+    updatedAt: now
+  });
+
+  notify(job);
+  void drain();
+  return job;
+}
+
+// 1st retry after the base delay, then 2x, 4x, ... up to the cap
+function retryDelay(attempts: number): number {
+  return Math.min(config.jobs.feedbackRetryDelayMs * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+async function generateAndStore(job: FeedbackJob, useFallback: boolean): Promise<void> {
+  const session = await storage.getPresentationSession(job.sessionId);
+  if (!session) {
+    throw new PermanentJobError(`Session ${job.sessionId} no longer exists`);
+  }
+
+  const team = await storage.getTeam(session.teamId);
+  const rubric = await storage.getRubric(session.rubricId);
+  if (!team || !rubric) {
+    throw new PermanentJobError("The session's team or rubric no longer exists");
+  }
+
+  const evaluations = await storage.getEvaluationsBySessionId(session.id);
+  if (evaluations.length === 0) {
+    throw new PermanentJobError("The session has no peer evaluations to summarize");
+  }
+
+  const feedback: FeedbackSummary = useFallback
+    ? await generateFallbackFeedback(evaluations, team, rubric)
+    : await generateAIFeedback(evaluations, team, rubric);
+
+  await saveFeedbackVersion(session.id, feedback, null);
+}
+
+async function finish(job: FeedbackJob, updates: Partial<Omit<FeedbackJob, "id">>) {
+  notify(await storage.updateFeedbackJob(job.id, { ...updates, updatedAt: new Date() }));
+}
+
+async function runJob(job: FeedbackJob): Promise<void> {
+  let message: string;
+
+  try {
+    await generateAndStore(job, false);
+    await finish(job, { status: "done", lastError: null });
+    return;
+  } catch (error) {
+    if (error instanceof PermanentJobError) {
+      await finish(job, { status: "failed", lastError: error.message });
+      return;
+    }
+
+    console.error(`Feedback job ${job.id} attempt ${job.attempts} failed:`, error);
+    message = error instanceof Error ? error.message : String(error);
+  }
+
+  if (job.attempts < config.jobs.feedbackMaxAttempts) {
+    await finish(job, {
+      status: "queued",
+      runAt: new Date(Date.now() + retryDelay(job.attempts)),
+      lastError: message
+    });
+    return;
+  }
+
+  // Out of retries: the extractive summary needs no network, so the team
+  // still gets feedback. lastError keeps why the provider was not used.
+  try {
+    await generateAndStore(job, true);
+    await finish(job, { status: "done", lastError: message });
+  } catch (error) {
+    console.error(`Feedback job ${job.id} fallback failed:`, error);
+    await finish(job, {
+      status: "failed",
+      lastError: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+// Hand due jobs to free workers until either runs out
+async function drain() {
+  if (draining) return;
+  draining = true;
+
+  try {
+    while (activeJobs < config.jobs.feedbackWorkers) {
+      const job = await storage.claimNextFeedbackJob(new Date());
+      if (!job) break;
+
+      activeJobs++;
+      notify(job);
+      runJob(job)
+        .catch((error) => console.error(`Feedback job ${job.id} error:`, error))
+        .finally(() => {
+          activeJobs--;
+          void drain();
+        });
+    }
+  } catch (error) {
+    console.error("Feedback queue error:", error);
+  } finally {
+    draining = false;
+  }
+}
+
+export async function startFeedbackWorkers(): Promise<void> {
+  if (pollTimer) return;
+
+  const requeued = await storage.requeueRunningFeedbackJobs(new Date());
+  if (requeued > 0) {
+    console.log(`Requeued ${requeued} feedback job(s) interrupted by a restart`);
+  }
+
+  pollTimer = setInterval(() => void drain(), POLL_INTERVAL_MS);
+  void drain();
+}
@@ -0,0 +1,113 @@
+import type { AIFeedback, FeedbackReview } from "@shared/schema";
+import type { FeedbackSummary } from "@shared/protocol";
+import { storage } from "./storage";
+
+// Content of one revision; overallScore always comes from the scores
+type FeedbackContent = Pick<FeedbackSummary, "strengths" | "improvements" | "provider" | "model"> & {
+  overallScore?: number;
+};
+
+// Feedback stored before versions were kept has no history yet; snapshot its
+// current text so that it is not lost from the history
+async function recordCurrentVersion(feedback: AIFeedback) {
+  if (await storage.getAIFeedbackVersion(feedback.sessionId, feedback.version)) return;
+
+  await storage.createAIFeedbackVersion({
+    sessionId: feedback.sessionId,
+    version: feedback.version,
+    strengths: feedback.strengths,
+    improvements: feedback.improvements,
+    provider: feedback.provider,
+    model: feedback.model,
+    authorId: feedback.editedBy,
+    createdAt: feedback.generatedAt
+  });
+}
+
+// Make content the session's current feedback as a new version. authorId is
+// the editing admin, or null for generated text. Publishing is untouched: the
+// presenting team keeps seeing the published version until it is approved.
+export async function saveFeedbackVersion(
+  sessionId: number,
+  content: FeedbackContent,
+  authorId: number | null
+): Promise<AIFeedback> {
+  const existing = await storage.getAIFeedbackBySessionId(sessionId);
+  if (existing) {
+    await recordCurrentVersion(existing);
+  }
+
+  const version = existing ? existing.version + 1 : 1;
+  const now = new Date();
+
+  await storage.createAIFeedbackVersion({
+    sessionId,
+    version,
+    strengths: content.strengths,
+    improvements: content.improvements,
+    provider: content.provider,
+    model: content.model,
+    authorId,
+    createdAt: now
+  });
+
+  const values = {
+    strengths: content.strengths,
+    improvements: content.improvements,
+    provider: content.provider,
+    model: content.model,
+    version,
+    editedBy: authorId,
+    // Edits keep the generation time; only a new generation moves it
+    ...(authorId === null ? { generatedAt: now } : {}),
+    ...(content.overallScore !== undefined ? { overallScore: content.overallScore } : {})
+  };
+
+  if (existing) {
+    return storage.updateAIFeedback(existing.id, values);
+  }
+
+  if (content.overallScore === undefined) {
+    throw new Error(`Session ${sessionId} has no feedback to edit`);
+  }
+
+  return storage.createAIFeedback({
+    sessionId,
+    ...values,
+    overallScore: content.overallScore,
+    generatedAt: now
+  });
+}
+
+// Approve the current version for the presenting team
+export async function publishFeedback(feedback: AIFeedback, userId: number): Promise<AIFeedback> {
+  await recordCurrentVersion(feedback);
+
+  return storage.updateAIFeedback(feedback.id, {
+    publishedVersion: feedback.version,
+    publishedAt: new Date(),
+    publishedBy: userId
+  });
+}
+
+export async function loadFeedbackReview(sessionId: number): Promise<FeedbackReview | null> {
+  const feedback = await storage.getAIFeedbackBySessionId(sessionId);
+  if (!feedback) return null;
+
+  const versions = await storage.getAIFeedbackVersions(sessionId);
+  const authors = new Map<number, { id: number; username: string }>();
+
+  const authorIds = new Set(versions.flatMap((version) => version.authorId !== null ? [version.authorId] : []));
+  for (const authorId of Array.from(authorIds)) {
+    const user = await storage.getUser(authorId);
+    if (user) authors.set(user.id, { id: user.id, username: user.username });
+  }
+
+  return {
+    feedback,
+    versions: versions.map((version) => ({
+      ...version,
+      author: version.authorId !== null ? authors.get(version.authorId) ?? null : null
+    }))
+  };
+}
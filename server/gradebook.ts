@@ -0,0 +1,62 @@
+import type { EventSettings, GradebookColumn, GradebookFormat } from "@shared/schema";
+import type { LeaderboardEntry, StudentGrade } from "@shared/scoring";
+import { buildGradeReport } from "./grades";
+import { buildLeaderboard } from "./leaderboard";
+import { toCsv, type CsvCell } from "./csv";
+
+// Points for one student in one column, or null when it cannot be scored yet
+function columnPoints(
+  column: GradebookColumn,
+  student: StudentGrade,
+  team: LeaderboardEntry | undefined,
+  maxGrade: number
+): number | null {
+  let fraction: number | null;
+
+  if (column.source === "grade") {
+    fraction = student.grade !== null ? student.grade / maxGrade : null;
+  } else if (column.source === "overall") {
+    fraction = team ? team.overall / 10 : null;
+  } else {
+    const key = column.source.slice("criterion:".length);
+    const average = team?.criteria[key];
+    const scale = team?.scales[key];
+    // From 0 at the criterion's minimum to 1 at its maximum, on the rubric
+    // the team was scored with
+    fraction = average !== undefined && scale
+      ? (average - scale.minScore) / (scale.maxScore - scale.minScore)
+      : null;
+  }
+
+  return fraction === null ? null : fraction * column.maxPoints;
+}
+
+// Gradebook import file keyed by USN, one row per student in the grade report.
+// Moodle matches rows on the "ID number" column; Canvas matches on
+// "SIS User ID" and takes the maximum points from its "Points Possible" row.
+export async function buildGradebookCsv(format: GradebookFormat, settings: EventSettings): Promise<string> {
+  const [{ formula, students }, leaderboard] = await Promise.all([
+    buildGradeReport(settings),
+    buildLeaderboard(settings),
+  ]);
+  const columns = settings.gradebookColumns;
+  const teams = new Map(leaderboard.entries.map(entry => [entry.teamId, entry]));
+
+  const points = (student: StudentGrade): CsvCell[] => columns.map(column => {
+    const team = student.teamId !== null ? teams.get(student.teamId) : undefined;
+    return columnPoints(column, student, team, formula.maxGrade)?.toFixed(2);
+  });
+
+  if (format === "moodle") {
+    return toCsv([
+      ["ID number", "Full name", ...columns.map(column => column.name)],
+      ...students.map(student => [student.usn, student.name, ...points(student)]),
+    ]);
+  }
+
+  return toCsv([
+    ["Student", "ID", "SIS User ID", "SIS Login ID", "Section", ...columns.map(column => column.name)],
+    ["Points Possible", "", "", "", "", ...columns.map(column => column.maxPoints)],
+    ...students.map(student => [student.name, "", student.usn, "", "", ...points(student)]),
+  ]);
+}
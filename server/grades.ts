@@ -0,0 +1,79 @@
+import { normalizeUsn, type EventSettings, type Team } from "@shared/schema";
+import { calculateGrade, type GradeReport, type StudentGrade } from "@shared/scoring";
+import { buildLeaderboard } from "./leaderboard";
+import { storage } from "./storage";
+
+// One row per student on the roster or in a team. Every completed session of
+// another team counts towards participation, evaluated or missed.
+export async function buildGradeReport(settings: EventSettings): Promise<GradeReport> {
+  const formula = settings.gradeFormula;
+  const [teams, roster, leaderboard, { sessions }] = await Promise.all([
+    storage.getAllTeams(),
+    storage.getAllRosterStudents(),
+    buildLeaderboard(settings),
+    storage.getPresentationSessions({ completed: true }),
+  ]);
+
+  const teamScores = new Map(leaderboard.entries.map(entry => [entry.teamId, entry.overall]));
+  const teamsById = new Map(teams.map(team => [team.id, team]));
+
+  // Evaluations record the evaluator's user id
+  const evaluatorsBySession = new Map<number, Set<number>>();
+  for (const session of sessions) {
+    const evaluations = await storage.getEvaluationsBySessionId(session.id);
+    evaluatorsBySession.set(session.id, new Set(evaluations.map(evaluation => evaluation.peerId)));
+  }
+
+  const students = new Map<string, { name: string; team: Team | null }>();
+  for (const student of roster) {
+    students.set(normalizeUsn(student.usn), { name: student.name, team: null });
+  }
+  for (const team of teams) {
+    for (const member of team.members) {
+      const usn = normalizeUsn(member.usn);
+      const existing = students.get(usn);
+      if (!existing) {
+        students.set(usn, { name: member.name, team });
+      } else if (!existing.team) {
+        existing.team = team;
+      }
+    }
+  }
+
+  const grades: StudentGrade[] = [];
+  for (const [usn, { name, team }] of Array.from(students.entries())) {
+    const peer = await storage.getPeerByUSN(usn);
+
+    let sessionsEvaluated = 0;
+    let sessionsMissed = 0;
+    for (const session of sessions) {
+      const presenting = teamsById.get(session.teamId);
+      if (presenting?.members.some(member => normalizeUsn(member.usn) === usn)) continue;
+
+      if (peer && evaluatorsBySession.get(session.id)?.has(peer.userId)) {
+        sessionsEvaluated++;
+      } else {
+        sessionsMissed++;
+      }
+    }
+
+    const eligible = sessionsEvaluated + sessionsMissed;
+    const participationRate = eligible > 0 ? sessionsEvaluated / eligible : 1;
+    const teamScore = team ? teamScores.get(team.id) ?? null : null;
+
+    grades.push({
+      usn,
+      name,
+      teamId: team?.id ?? null,
+      teamName: team?.name ?? null,
+      teamScore,
+      sessionsEvaluated,
+      sessionsMissed,
+      participationRate,
+      grade: calculateGrade(formula, teamScore, participationRate)
+    });
+  }
+
+  grades.sort((a, b) => a.usn.localeCompare(b.usn));
+  return { formula, students: grades };
+}
@@ -1,30 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
-import session from "express-session";
-import MemoryStore from "memorystore";
 import { registerRoutes } from "./routes";
+import { sessionMiddleware } from "./session";
 import {setupVite, serveStatic, log} from "./vite";
-// Create a memory store for sessions
-const MemoryStoreSession = MemoryStore(session);
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
 // Session middleware
-app.use(
-  session({
-    secret: "peer-evaluation-session-secret",
-    resave: false,
-    saveUninitialized: false,
-    cookie: { 
-      secure: process.env.NODE_ENV === "production",
-      maxAge: 24 * 60 * 60 * 1000 // 24 hours
-    },
-    store: new MemoryStoreSession({
-      checkPeriod: 86400000 // prune expired entries every 24h
-    })
-  })
-);
+app.use(sessionMiddleware);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -0,0 +1,60 @@
+import type { EventSettings, RubricCriterion } from "@shared/schema";
+import {
+  calculateAverages,
+  confidenceInterval95,
+  rankLeaderboard,
+  weightedOverall,
+  type Leaderboard,
+  type LeaderboardEntry
+} from "@shared/scoring";
+import { storage } from "./storage";
+
+// Ranks every team on its most recent completed presentation, so a team
+// that presented again is judged on the rerun
+export async function buildLeaderboard(settings: EventSettings): Promise<Leaderboard> {
+  const entries: Omit<LeaderboardEntry, "rank">[] = [];
+  const criteria = new Map<string, Pick<RubricCriterion, "key" | "label">>();
+
+  for (const team of await storage.getAllTeams()) {
+    const { sessions } = await storage.getPresentationSessions({
+      teamId: team.id,
+      completed: true,
+      limit: 1,
+      offset: 0
+    });
+    const session = sessions[0];
+    const rubric = session && await storage.getRubric(session.rubricId);
+    if (!session || !rubric) continue;
+
+    const evaluations = await storage.getEvaluationsBySessionId(session.id);
+    if (evaluations.length === 0) continue;
+
+    for (const { key, label } of rubric.criteria) {
+      if (!criteria.has(key)) criteria.set(key, { key, label });
+    }
+
+    const averages = calculateAverages(rubric.criteria, evaluations);
+    entries.push({
+      teamId: team.id,
+      teamName: team.name,
+      projectTitle: team.projectTitle,
+      sessionId: session.id,
+      overall: averages.overall,
+      criteria: averages.criteria,
+      scales: Object.fromEntries(
+        rubric.criteria.map(({ key, minScore, maxScore }) => [key, { minScore, maxScore }])
+      ),
+      evaluatorCount: evaluations.length,
+      confidenceInterval: confidenceInterval95(
+        evaluations.map(evaluation => weightedOverall(rubric.criteria, evaluation.scores))
+      )
+    });
+  }
+
+  return {
+    visible: settings.leaderboardVisible,
+    tieBreak: settings.leaderboardTieBreak,
+    criteria: Array.from(criteria.values()),
+    entries: rankLeaderboard(entries, settings.leaderboardTieBreak)
+  };
+}
@@ -0,0 +1,94 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { SessionRecording } from "@shared/schema";
+import { config } from "./config";
+import { storage } from "./storage";
+
+type ChunkResult =
+  | { success: true; recording: SessionRecording }
+  | { success: false; status: number; message: string };
+
+// Uploads of the same recording run one after another, so a retried chunk
+// cannot be appended twice
+const locks = new Map<number, Promise<unknown>>();
+
+function withRecordingLock<T>(recordingId: number, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(recordingId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  locks.set(recordingId, next);
+
+  next.catch(() => undefined).finally(() => {
+    if (locks.get(recordingId) === next) locks.delete(recordingId);
+  });
+  return next;
+}
+
+export function recordingPath(recording: Pick<SessionRecording, "fileName">): string {
+  return path.join(config.recordings.dir, recording.fileName);
+}
+
+// Start an empty recording file for a session. MediaRecorder types look like
+// "video/webm;codecs=vp9"; only the container decides the extension.
+export async function startRecording(sessionId: number, recordedBy: number, mimeType: string): Promise<SessionRecording> {
+  const extension = mimeType.startsWith("video/mp4") ? "mp4" : "webm";
+  const fileName = path.join(`session-${sessionId}`, `${randomUUID()}.${extension}`);
+
+  await fs.mkdir(path.dirname(recordingPath({ fileName })), { recursive: true });
+  await fs.writeFile(recordingPath({ fileName }), Buffer.alloc(0));
+
+  return storage.createSessionRecording({
+    sessionId,
+    recordedBy,
+    mimeType,
+    fileName,
+    startedAt: new Date()
+  });
+}
+
+// Append chunk number seq (counting from 0). A chunk that was already
+// stored is acknowledged again without writing it, so clients can retry.
+export function appendRecordingChunk(recordingId: number, seq: number, data: Buffer): Promise<ChunkResult> {
+  return withRecordingLock(recordingId, async () => {
+    const recording = await storage.getSessionRecording(recordingId);
+    if (!recording) {
+      return { success: false, status: 404, message: "Recording not found" };
+    }
+
+    if (seq < recording.chunkCount) {
+      return { success: true, recording };
+    }
+
+    if (recording.endedAt) {
+      return { success: false, status: 409, message: "This recording has already finished" };
+    }
+
+    if (seq > recording.chunkCount) {
+      return { success: false, status: 409, message: `Expected chunk ${recording.chunkCount}, got ${seq}` };
+    }
+
+    if (recording.sizeBytes + data.length > config.recordings.maxMegabytes * 1024 * 1024) {
+      return { success: false, status: 413, message: "This recording has reached the size limit" };
+    }
+
+    await fs.appendFile(recordingPath(recording), data);
+
+    return {
+      success: true,
+      recording: await storage.updateSessionRecording(recording.id, {
+        chunkCount: recording.chunkCount + 1,
+        sizeBytes: recording.sizeBytes + data.length
+      })
+    };
+  });
+}
+
+// Mark the recording complete once the last chunk is in
+export function finishRecording(recordingId: number): Promise<SessionRecording | undefined> {
+  return withRecordingLock(recordingId, async () => {
+    const recording = await storage.getSessionRecording(recordingId);
+    if (!recording || recording.endedAt) return recording;
+
+    return storage.updateSessionRecording(recording.id, { endedAt: new Date() });
+  });
+}
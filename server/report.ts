@@ -0,0 +1,240 @@
+import PDFDocument from "pdfkit";
+import type { Writable } from "stream";
+import type {
+  AIFeedback,
+  Evaluation,
+  PresentationSession,
+  Rubric,
+  Team
+} from "@shared/schema";
+import { calculateAverages, weightedOverall } from "@shared/scoring";
+import { describeFeedbackSource } from "@shared/feedback";
+import { storage } from "./storage";
+
+// Everything one team's section of a report needs
+export type TeamReport = {
+  team: Team;
+  session: PresentationSession;
+  rubric: Rubric;
+  evaluations: Evaluation[];
+  feedback: AIFeedback | undefined;
+};
+
+const PAGE_MARGIN = 50;
+const COLORS = {
+  text: "#1f2937",
+  muted: "#6b7280",
+  rule: "#d1d5db",
+  bar: "#4f46e5",
+};
+
+export async function loadTeamReport(session: PresentationSession): Promise<TeamReport | undefined> {
+  const [team, rubric] = await Promise.all([
+    storage.getTeam(session.teamId),
+    storage.getRubric(session.rubricId),
+  ]);
+  if (!team || !rubric) return undefined;
+
+  return {
+    team,
+    session,
+    rubric,
+    evaluations: await storage.getEvaluationsBySessionId(session.id),
+    feedback: await storage.getAIFeedbackBySessionId(session.id),
+  };
+}
+
+// The latest presentation of every team that has presented, in team order
+export async function loadEventReports(): Promise<TeamReport[]> {
+  const reports: TeamReport[] = [];
+
+  for (const team of await storage.getAllTeams()) {
+    const { sessions } = await storage.getPresentationSessions({ teamId: team.id, completed: true, limit: 1, offset: 0 });
+    const report = sessions[0] && await loadTeamReport(sessions[0]);
+    if (report) reports.push(report);
+  }
+
+  return reports;
+}
+
+// Renders one section per team, each starting on a new page, and streams
+// the PDF into `out`
+export function writeReportPdf(reports: TeamReport[], title: string, out: Writable): void {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    info: { Title: title },
+  });
+  doc.pipe(out);
+
+  if (reports.length === 0) {
+    doc.font("Helvetica-Bold").fontSize(18).fillColor(COLORS.text).text(title);
+    doc.moveDown().font("Helvetica").fontSize(11).fillColor(COLORS.muted)
+      .text("No team has presented yet.");
+  }
+
+  reports.forEach((report, index) => {
+    if (index > 0) doc.addPage();
+    writeTeamSection(doc, report);
+  });
+
+  doc.end();
+}
+
+function writeTeamSection(doc: PDFKit.PDFDocument, { team, session, rubric, evaluations, feedback }: TeamReport) {
+  const averages = calculateAverages(rubric.criteria, evaluations);
+
+  doc.font("Helvetica-Bold").fontSize(18).fillColor(COLORS.text).text(team.name);
+  doc.font("Helvetica").fontSize(12).text(team.projectTitle);
+  doc.moveDown(0.3).fontSize(9).fillColor(COLORS.muted).text(
+    `Presented ${session.startTime.toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" })}` +
+    ` · Rubric: ${rubric.name} · ${evaluations.length} peer evaluation${evaluations.length === 1 ? "" : "s"}`
+  );
+
+  heading(doc, "Team Members");
+  doc.font("Helvetica").fontSize(10).fillColor(COLORS.text);
+  if (team.members.length === 0) {
+    doc.fillColor(COLORS.muted).text("No members listed.");
+  }
+  for (const member of team.members) {
+    doc.text(`${member.name} (${member.usn})`);
+  }
+
+  heading(doc, "Score Breakdown");
+  if (evaluations.length === 0) {
+    doc.font("Helvetica").fontSize(10).fillColor(COLORS.muted).text("No peer evaluations were submitted.");
+  } else {
+    writeCriteriaTable(doc, rubric, evaluations, averages.criteria);
+    doc.moveDown(0.5).font("Helvetica-Bold").fontSize(11).fillColor(COLORS.text)
+      .text(`Weighted overall: ${averages.overall.toFixed(1)}/10`, PAGE_MARGIN);
+
+    heading(doc, "Score Distribution");
+    writeDistribution(doc, evaluations.map(evaluation => weightedOverall(rubric.criteria, evaluation.scores)));
+  }
+
+  heading(doc, "Feedback Summary");
+  if (feedback) {
+    const source = describeFeedbackSource(feedback.provider);
+    doc.font("Helvetica").fontSize(9).fillColor(COLORS.muted)
+      .text(`${source.title}. ${source.description} · ${feedback.provider} (${feedback.model})`, PAGE_MARGIN);
+    doc.moveDown(0.3);
+    bulletList(doc, "Strengths", feedback.strengths);
+    bulletList(doc, "Areas for Improvement", feedback.improvements);
+  } else {
+    doc.font("Helvetica").fontSize(10).fillColor(COLORS.muted).text("No feedback summary was generated.");
+  }
+
+  // Comments are sorted rather than listed in submission order so they
+  // cannot be matched to evaluators by timing
+  heading(doc, "Peer Comments");
+  const positive = evaluations.flatMap(e => e.positivePoints?.trim() ? [e.positivePoints.trim()] : []).sort();
+  const negative = evaluations.flatMap(e => e.negativePoints?.trim() ? [e.negativePoints.trim()] : []).sort();
+  if (positive.length === 0 && negative.length === 0) {
+    doc.font("Helvetica").fontSize(10).fillColor(COLORS.muted).text("No comments were left.");
+  }
+  if (positive.length > 0) bulletList(doc, "What worked well", positive);
+  if (negative.length > 0) bulletList(doc, "What could be better", negative);
+}
+
+// Start a new page when fewer than `height` points are left, so that rows
+// drawn at a fixed y are not split across pages
+function ensureSpace(doc: PDFKit.PDFDocument, height: number) {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+    doc.addPage();
+  }
+}
+
+function heading(doc: PDFKit.PDFDocument, text: string) {
+  doc.moveDown(1.2);
+  ensureSpace(doc, 60);
+  doc.font("Helvetica-Bold").fontSize(13).fillColor(COLORS.text).text(text, PAGE_MARGIN);
+  const y = doc.y + 2;
+  doc.moveTo(PAGE_MARGIN, y).lineTo(doc.page.width - PAGE_MARGIN, y).strokeColor(COLORS.rule).stroke();
+  doc.moveDown(0.5);
+}
+
+function bulletList(doc: PDFKit.PDFDocument, label: string, items: string[]) {
+  doc.font("Helvetica-Bold").fontSize(10).fillColor(COLORS.text).text(label, PAGE_MARGIN);
+  doc.font("Helvetica").fontSize(10);
+  if (items.length === 0) {
+    doc.fillColor(COLORS.muted).text("None.");
+  } else {
+    doc.list(items, { bulletRadius: 1.5, textIndent: 10 });
+  }
+  doc.moveDown(0.5);
+}
+
+function writeCriteriaTable(
+  doc: PDFKit.PDFDocument,
+  rubric: Rubric,
+  evaluations: Evaluation[],
+  averages: Record<string, number>
+) {
+  const columns = [
+    { label: "Criterion", width: 200 },
+    { label: "Average", width: 75 },
+    { label: "Lowest", width: 75 },
+    { label: "Highest", width: 75 },
+    { label: "Weight", width: 70 },
+  ];
+
+  const row = (cells: string[], bold = false) => {
+    ensureSpace(doc, 30);
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+    let bottom = y;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10).fillColor(COLORS.text);
+    cells.forEach((cell, i) => {
+      doc.text(cell, x, y, { width: columns[i].width - 8 });
+      bottom = Math.max(bottom, doc.y);
+      x += columns[i].width;
+    });
+    doc.x = PAGE_MARGIN;
+    doc.y = bottom;
+    doc.moveDown(0.3);
+  };
+
+  row(columns.map(column => column.label), true);
+  for (const criterion of rubric.criteria) {
+    const scores = evaluations
+      .map(evaluation => evaluation.scores[criterion.key])
+      .filter((score): score is number => typeof score === "number");
+
+    row([
+      criterion.label,
+      `${(averages[criterion.key] ?? 0).toFixed(1)}/${criterion.maxScore}`,
+      scores.length > 0 ? String(Math.min(...scores)) : "-",
+      scores.length > 0 ? String(Math.max(...scores)) : "-",
+      String(criterion.weight),
+    ]);
+  }
+}
+
+// Horizontal bar per whole point of the overall score out of 10
+function writeDistribution(doc: PDFKit.PDFDocument, overallScores: number[]) {
+  const buckets = Array.from({ length: 10 }, () => 0);
+  for (const score of overallScores) {
+    // Rounded first so that 7.9999... from float division lands in 8-9
+    const point = Math.floor(Math.round(score * 10) / 10);
+    buckets[Math.min(9, Math.max(0, point))]++;
+  }
+
+  const most = Math.max(...buckets);
+  const labelWidth = 50;
+  const maxBarWidth = 300;
+  const barHeight = 10;
+
+  doc.font("Helvetica").fontSize(9);
+  buckets.forEach((count, i) => {
+    ensureSpace(doc, barHeight + 4);
+    const y = doc.y;
+    doc.fillColor(COLORS.muted).text(`${i}-${i + 1}`, PAGE_MARGIN, y, { width: labelWidth });
+    if (count > 0) {
+      const width = (count / most) * maxBarWidth;
+      doc.rect(PAGE_MARGIN + labelWidth, y, width, barHeight).fill(COLORS.bar);
+      doc.fillColor(COLORS.text).text(String(count), PAGE_MARGIN + labelWidth + width + 6, y);
+    }
+    doc.x = PAGE_MARGIN;
+    doc.y = y + barHeight + 4;
+  });
+}
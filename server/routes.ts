@@ -1,14 +1,57 @@
-import type { Express, Request, Response } from "express";
-import { createServer, type Server } from "http";
+import express, { type Express, type Request, type Response } from "express";
+import { createServer, type IncomingMessage, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
+import { randomBytes, randomInt, randomUUID } from "crypto";
 import { storage } from "./storage";
-import { generateAIFeedback } from "./ai";
+import { loadSession } from "./session";
+import { config } from "./config";
+import { generatePassword, hashPassword, verifyPassword } from "./auth";
+import { enqueueFeedbackJob, onFeedbackJobUpdate, startFeedbackWorkers } from "./feedback-jobs";
+import { loadFeedbackReview, publishFeedback, saveFeedbackVersion } from "./feedback-versions";
+import { loadPublishedFeedback } from "./team-feedback";
+import { loadEventReports, loadTeamReport, writeReportPdf } from "./report";
+import { buildLeaderboard } from "./leaderboard";
+import { buildGradeReport } from "./grades";
+import { toCsv } from "./csv";
+import { buildGradebookCsv } from "./gradebook";
+import { buildRtcConfig } from "./rtc";
+import { appendRecordingChunk, finishRecording, recordingPath, startRecording } from "./recordings";
+import { calculateAverages, weightedOverall, DEFAULT_RUBRIC_CRITERIA } from "@shared/scoring";
+import { parseClientMessage, type ServerMessage, type ShareGrant, type WSErrorCode } from "@shared/protocol";
 import { z } from "zod";
 import { 
   insertPeerSchema, 
   insertTeamSchema,
   insertEvaluationSchema,
-  peerLoginSchema
+  peerLoginSchema,
+  presenterLoginSchema,
+  adminLoginSchema,
+  createAdminUserSchema,
+  updateAdminUserSchema,
+  resetPasswordSchema,
+  insertRosterStudentSchema,
+  rosterImportSchema,
+  eventSettingsSchema,
+  normalizeUsn,
+  createRoomSchema,
+  rubricFormSchema,
+  buildEvaluationFormSchema,
+  sessionHistoryQuerySchema,
+  gradebookFormatSchema,
+  feedbackEditSchema,
+  startRecordingSchema,
+  feedbackPublishSchema,
+  type Evaluation,
+  type EvaluationWithPeer,
+  type PresentationSession,
+  type Room,
+  type Rubric,
+  type SessionDetail,
+  type SessionEvent,
+  type SessionEventType,
+  type SessionSummary,
+  type Team,
+  type User
 } from "@shared/schema";
 
 // Extend Express Request to include session
@@ -16,6 +59,8 @@ declare module 'express-session' {
   interface SessionData {
     userId?: number;
     isAdmin?: boolean;
+    // Presenter devices only: the link token they logged in with
+    presenterToken?: string;
   }
 }
 
@@ -24,66 +69,476 @@ type RequestWithSession = Request & {
   session: {
     userId?: number;
     isAdmin?: boolean;
+    presenterToken?: string;
     destroy: (callback: (err: Error | null) => void) => void;
   } 
 };
 
 type Client = {
+  // Per connection, so two tabs of one user are told apart in signaling
+  id: string;
   socket: WebSocket;
   userId: number;
   isAdmin: boolean;
+  roomId: number | null;
 };
 
+// Live state of one room's presentation
+type RoomState = {
+  room: Room;
+  activeSession: PresentationSession | null;
+  activeTeam: Team | null;
+  activeRubric: Rubric | null;
+  timerSeconds: number;
+  isTimerRunning: boolean;
+  timerInterval: NodeJS.Timeout | null;
+  // Client id of whoever is sharing their screen in the room
+  screenSharerId: string | null;
+  // Whether the sharer is also sending its camera and microphone
+  isSharerCameraOn: boolean;
+  // Non-admin allowed to share during the active session, if any
+  shareGrant: ShareGrant | null;
+};
+
+// Presenter devices log in as a per-room account with this username prefix.
+// USNs are upper case, so a student can never be mistaken for one.
+const PRESENTER_USERNAME_PREFIX = "presenter-room-";
+
+function isPresenterDevice(user: User): boolean {
+  return !user.isAdmin && user.username.startsWith(PRESENTER_USERNAME_PREFIX);
+}
+
+// Room codes skip look-alike characters (0/O, 1/I) so they can be read aloud
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const ROOM_CODE_LENGTH = 6;
+
+function isTeamMember(team: Team, usn: string): boolean {
+  const normalized = normalizeUsn(usn);
+  return team.members.some((member) => normalizeUsn(member.usn) === normalized);
+}
+
+// Roster names are matched ignoring case and extra whitespace
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// "Team Alpha #2" -> "team-alpha-2", for download filenames
+function toFileSlug(name: string): string {
+  return name.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "").toLowerCase() || "team";
+}
+
+function generateRoomCode(): string {
+  let code = "";
+  for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+    code += ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
   
-  // Create WebSocket server
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  // Create WebSocket server. Upgrades are handled below so they can be
+  // authenticated against the Express session before the socket is accepted.
+  const wss = new WebSocketServer({ noServer: true });
+  
+  httpServer.on('upgrade', async (req, socket, head) => {
+    // Other upgrade listeners (e.g. the Vite HMR socket) handle their own paths
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== '/ws') return;
+    
+    try {
+      const session = await loadSession(req);
+      const user = session?.userId ? await storage.getUserById(session.userId) : undefined;
+      
+      // A presenter device's login only lasts as long as the link it used
+      const isStaleDevice = !!user && isPresenterDevice(user) && !findDeviceGrant(session?.presenterToken);
+      
+      if (!user || user.isDisabled || isStaleDevice) {
+        console.log("Rejected unauthenticated WebSocket upgrade");
+        socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+      
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        wss.emit('connection', ws, req, user);
+      });
+    } catch (error) {
+      console.error("WebSocket upgrade error:", error);
+      socket.write("HTTP/1.1 500 Internal Server Error\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+    }
+  });
   
   // Store connected clients
   const clients: Map<WebSocket, Client> = new Map();
   
-  // Store presentation state
-  let activeSession: any = null;
-  let activeTeam: any = null;
-  let timerSeconds: number = 0;
-  let isTimerRunning: boolean = false;
-  let timerInterval: NodeJS.Timeout | null = null;
+  // Live presentation state, one entry per room
+  const rooms: Map<number, RoomState> = new Map();
+  
+  // The room whose presenter device link has this token
+  const findDeviceGrant = (token: string | undefined): RoomState | undefined => {
+    if (!token) return undefined;
+    return Array.from(rooms.values()).find(
+      (state) => state.shareGrant?.kind === "device" && state.shareGrant.token === token
+    );
+  };
+  
+  const getRoomState = (room: Room): RoomState => {
+    let state = rooms.get(room.id);
+    if (!state) {
+      state = {
+        room,
+        activeSession: null,
+        activeTeam: null,
+        activeRubric: null,
+        timerSeconds: 0,
+        isTimerRunning: false,
+        timerInterval: null,
+        screenSharerId: null,
+        isSharerCameraOn: false,
+        shareGrant: null
+      };
+      rooms.set(room.id, state);
+    }
+    return state;
+  };
+  
+  // Typed send helpers; every server -> client frame goes through these
+  const send = (socket: WebSocket, message: ServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+  
+  const sendError = (socket: WebSocket, code: WSErrorCode, message: string, requestType?: string) => {
+    send(socket, { type: "error", payload: { message, code, requestType } });
+  };
+  
+  // Send a message to every open client in a room, optionally filtered
+  const broadcastToRoom = (
+    state: RoomState,
+    message: ServerMessage,
+    filter: (client: Client) => boolean = () => true
+  ) => {
+    const data = JSON.stringify(message);
+    clients.forEach((c, socket) => {
+      if (c.roomId === state.room.id && filter(c) && socket.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      }
+    });
+  };
+  
+  // Send to one client of a room by its client id; false if it is not there
+  const sendToClient = (state: RoomState, clientId: string, message: ServerMessage): boolean => {
+    const target = Array.from(clients.values()).find(c => c.id === clientId && c.roomId === state.room.id);
+    if (!target) return false;
+    
+    send(target.socket, message);
+    return true;
+  };
+  
+  // End the room's screen share, telling everyone but the sharer
+  const endScreenShare = (state: RoomState) => {
+    const sharerId = state.screenSharerId;
+    if (!sharerId) return;
+    
+    state.screenSharerId = null;
+    state.isSharerCameraOn = false;
+    broadcastToRoom(state, { type: "screen_share_stop" }, c => c.id !== sharerId);
+  };
+  
+  const canShareScreen = (client: Client, state: RoomState): boolean =>
+    client.isAdmin || (!!state.activeSession && state.shareGrant?.userId === client.userId);
+  
+  // Everyone learns who may share; only admins see a device's login token
+  const buildShareGrantUpdate = (state: RoomState, forAdmin: boolean): ServerMessage => {
+    const grant = state.shareGrant;
+    return {
+      type: "screen_share_grant",
+      payload: {
+        grant: grant?.kind === "device" && !forAdmin ? { kind: "device", userId: grant.userId } : grant
+      }
+    };
+  };
+  
+  const broadcastShareGrant = (state: RoomState) => {
+    broadcastToRoom(state, buildShareGrantUpdate(state, true), c => c.isAdmin);
+    broadcastToRoom(state, buildShareGrantUpdate(state, false), c => !c.isAdmin);
+  };
+  
+  // Take share rights away again, ending the grantee's share if it is
+  // running. A presenter device is also disconnected: its link is spent.
+  const revokeShareGrant = (state: RoomState) => {
+    const grant = state.shareGrant;
+    if (!grant) return;
+    
+    state.shareGrant = null;
+    
+    const sharer = Array.from(clients.values()).find(c => c.id === state.screenSharerId);
+    if (sharer && sharer.userId === grant.userId) {
+      endScreenShare(state);
+    }
+    
+    broadcastShareGrant(state);
+    
+    if (grant.kind === "device") {
+      disconnectUser(grant.userId, "Presenter link expired");
+    }
+  };
+  
+  // The account presenter devices of a room log in as. Which device may use
+  // it is decided by the link token, not by the account.
+  const getPresenterDeviceUser = async (room: Room): Promise<User> => {
+    const username = `${PRESENTER_USERNAME_PREFIX}${room.id}`;
+    const existing = await storage.getUserByUsername(username);
+    if (existing) return existing;
+    
+    // Nobody logs in with the password; the token from the link is used instead
+    return storage.createUser({
+      username,
+      password: await hashPassword(generatePassword()),
+      isAdmin: false
+    });
+  };
+  
+  // Send the current timer state to every client in the room
+  const broadcastTimer = (state: RoomState) => {
+    broadcastToRoom(state, {
+      type: "timer_update",
+      payload: {
+        seconds: state.timerSeconds,
+        isRunning: state.isTimerRunning
+      }
+    });
+  };
+  
+  const startTimerInterval = (state: RoomState) => {
+    if (!state.timerInterval) {
+      state.timerInterval = setInterval(() => {
+        state.timerSeconds++;
+        broadcastTimer(state);
+      }, 1000);
+    }
+  };
+  
+  const stopTimerInterval = (state: RoomState) => {
+    if (state.timerInterval) {
+      clearInterval(state.timerInterval);
+      state.timerInterval = null;
+    }
+  };
+  
+  // Build the evaluation_update message with per-criterion averages
+  const buildEvaluationUpdate = (rubric: Rubric, sessionEvaluations: Evaluation[]): ServerMessage => {
+    return {
+      type: "evaluation_update",
+      payload: {
+        evaluations: sessionEvaluations,
+        averages: calculateAverages(rubric.criteria, sessionEvaluations)
+      }
+    };
+  };
+  
+  const buildSessionUpdate = async (session: PresentationSession, team: Team, rubric: Rubric): Promise<ServerMessage> => {
+    const { allowSelfAssessment } = await storage.getEventSettings();
+    return {
+      type: "session_update",
+      payload: { session, team, rubric, allowSelfAssessment }
+    };
+  };
+  
+  // First run: create an admin account so someone can log in at all
+  const ensureBootstrapAdmin = async () => {
+    const admins = await storage.getAdminUsers();
+    if (admins.length > 0) return;
+    
+    const { bootstrapAdminUsername, bootstrapAdminPassword } = config.auth;
+    const password = bootstrapAdminPassword || generatePassword();
+    
+    await storage.createUser({
+      username: bootstrapAdminUsername,
+      password: await hashPassword(password),
+      isAdmin: true
+    });
+    
+    if (bootstrapAdminPassword) {
+      console.log(`Created admin account "${bootstrapAdminUsername}" from ADMIN_PASSWORD`);
+    } else {
+      console.log(`Created admin account "${bootstrapAdminUsername}" with password: ${password}`);
+      console.log("Change it after logging in; it will not be shown again.");
+    }
+  };
+  
+  // Close any open sockets of a user, e.g. once their account is disabled
+  const disconnectUser = (userId: number, reason = "Account disabled") => {
+    clients.forEach((client) => {
+      if (client.userId === userId) {
+        client.socket.close(4001, reason);
+      }
+    });
+  };
+  
+  // Make sure there is always a rubric to start presentations with
+  const ensureDefaultRubric = async () => {
+    if (await storage.getDefaultRubric()) return;
+    
+    await storage.createRubric({
+      name: "Default",
+      criteria: DEFAULT_RUBRIC_CRITERIA,
+      isDefault: true,
+      createdBy: 0,
+      createdAt: new Date()
+    });
+  };
+  
+  // Persist the timer on the room's active session so it survives a restart
+  const persistTimer = async (state: RoomState) => {
+    if (!state.activeSession) return;
+    
+    state.activeSession = await storage.updatePresentationSession(state.activeSession.id, {
+      timerSeconds: state.timerSeconds,
+      timerStartedAt: state.isTimerRunning ? new Date() : null
+    });
+  };
+  
+  // Note a timer or phase change on the active session, so recordings of it
+  // can be marked up
+  const recordSessionEvent = async (state: RoomState, type: SessionEventType) => {
+    if (!state.activeSession) return;
+    
+    const event: SessionEvent = { type, at: new Date().toISOString(), timerSeconds: state.timerSeconds };
+    state.activeSession = await storage.appendSessionEvent(state.activeSession.id, event);
+  };
+  
+  // Rehydrate every room's live presentation from storage after a restart
+  const restoreLiveState = async () => {
+    const sessions = await storage.getActivePresentationSessions();
+    
+    for (const session of sessions) {
+      const room = await storage.getRoom(session.roomId);
+      const team = await storage.getTeam(session.teamId);
+      const rubric = await storage.getRubric(session.rubricId);
+      
+      if (!room || !team || !rubric) {
+        console.warn(`Active session ${session.id} references a missing room, team or rubric, ending it`);
+        await storage.updatePresentationSession(session.id, {
+          endTime: new Date(),
+          isActive: false,
+          timerStartedAt: null
+        });
+        continue;
+      }
+      
+      const state = getRoomState(room);
+      state.activeSession = session;
+      state.activeTeam = team;
+      state.activeRubric = rubric;
+      state.timerSeconds = session.timerSeconds;
+      state.isTimerRunning = session.timerStartedAt !== null;
+      
+      // The presentation kept going while we were down, so count that time too
+      if (session.timerStartedAt) {
+        state.timerSeconds += Math.max(0, Math.floor((Date.now() - session.timerStartedAt.getTime()) / 1000));
+        startTimerInterval(state);
+      }
+      
+      console.log(`Restored active session ${session.id} for ${team.name} in room ${room.code} at ${state.timerSeconds}s`);
+    }
+  };
+  
+  // Keep admins posted on feedback generation, and hand feedback for a
+  // session that just ended to the admins in the room it ran in. Peers only
+  // get to see feedback once it has been reviewed and published.
+  onFeedbackJobUpdate(async (job) => {
+    clients.forEach((client) => {
+      if (client.isAdmin) {
+        send(client.socket, { type: "feedback_job_update", payload: { job } });
+      }
+    });
+    
+    // Regenerations of past sessions are only reported to admins
+    if (job.status !== "done" || job.requestedBy !== null) return;
+    
+    try {
+      const session = await storage.getPresentationSession(job.sessionId);
+      const state = session && rooms.get(session.roomId);
+      // The room may have moved on to the next team meanwhile
+      if (!state || state.activeSession) return;
+      
+      const feedback = await storage.getAIFeedbackBySessionId(job.sessionId);
+      if (!feedback) return;
+      
+      broadcastToRoom(state, {
+        type: "feedback_update",
+        payload: {
+          sessionId: feedback.sessionId,
+          feedback: {
+            strengths: feedback.strengths,
+            improvements: feedback.improvements,
+            overallScore: feedback.overallScore,
+            provider: feedback.provider,
+            model: feedback.model
+          }
+        }
+      }, (c) => c.isAdmin);
+    } catch (error) {
+      console.error("Error sending generated feedback:", error);
+    }
+  });
+  
+  try {
+    await ensureBootstrapAdmin();
+    await ensureDefaultRubric();
+    await restoreLiveState();
+  } catch (error) {
+    console.error("Error restoring live presentation state:", error);
+  }
+  
+  try {
+    await startFeedbackWorkers();
+  } catch (error) {
+    console.error("Error starting feedback workers:", error);
+  }
   
   // ===== REST API ROUTES =====
   
+  // A disabled account loses its session on the next request
+  app.use("/api", async (req: RequestWithSession, res, next) => {
+    if (!req.session.userId) return next();
+    
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (user && !user.isDisabled) return next();
+      
+      req.session.destroy(() => {
+        res.status(401).json({ message: "Not authenticated" });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+  
   // Auth routes
   app.post("/api/auth/admin-login", async (req: RequestWithSession, res) => {
     try {
-      const { password } = req.body;
+      const { username, password } = adminLoginSchema.parse(req.body);
       
-      // In a real application, this should be a secure password check
-      if (password !== "admin") {
-        return res.status(401).json({ message: "Invalid admin password" });
-      }
-      
-      // Create or get admin user
-      const adminUser = await storage.getUserByUsername("admin");
-      let userId = 0;
-      
-      if (!adminUser) {
-        const newUser = await storage.createUser({ 
-          username: "admin", 
-          password: "admin_secure_hash", // Would be hashed in production
-          isAdmin: true 
-        });
-        userId = newUser.id;
-      } else {
-        userId = adminUser.id;
+      const user = await storage.getUserByUsername(username);
+      if (!user || !user.isAdmin || user.isDisabled || !(await verifyPassword(password, user.password))) {
+        return res.status(401).json({ message: "Invalid username or password" });
       }
       
       // Set user in session
-      req.session.userId = userId;
+      req.session.userId = user.id;
       req.session.isAdmin = true;
       
-      res.json({ id: userId, username: "admin", isAdmin: true });
+      res.json({ id: user.id, username: user.username, isAdmin: true });
     } catch (error) {
       console.error("Admin login error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
       res.status(500).json({ message: "Internal server error" });
     }
   });
@@ -91,7 +546,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/auth/peer-login", async (req: RequestWithSession, res) => {
     try {
       const validatedData = peerLoginSchema.parse(req.body);
-      const { name, usn } = validatedData;
+      const usn = normalizeUsn(validatedData.usn);
+      
+      const { joinPin } = await storage.getEventSettings();
+      if (joinPin && validatedData.pin?.trim() !== joinPin) {
+        return res.status(401).json({ message: "Incorrect join PIN" });
+      }
+      
+      // Only students on the roster may log in, and only under their own name
+      const student = await storage.getRosterStudentByUSN(usn);
+      if (!student) {
+        return res.status(401).json({ message: "This USN is not on the roster. Ask your coordinator to add you." });
+      }
+      if (normalizeName(student.name) !== normalizeName(validatedData.name)) {
+        return res.status(401).json({ message: "Name does not match the roster entry for this USN" });
+      }
+      const name = student.name;
       
       // Check if peer exists
       let peer = await storage.getPeerByUSN(usn);
@@ -100,7 +570,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Create a new user for the peer
         const newUser = await storage.createUser({
           username: usn,
-          password: "peer_user", // Would be hashed in production
+          password: await hashPassword(generatePassword()),
           isAdmin: false
         });
         
@@ -115,6 +585,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Set user in session
       req.session.userId = peer.userId;
       req.session.isAdmin = false;
+
       
       // Get user info
       const user = await storage.getUser(peer.userId);
@@ -147,711 +618,1682 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!req.session.userId) {
       return res.status(401).json({ message: "Not authenticated" });
     }
-    
+    
+    try {
+      const user = await storage.getUser(req.session.userId);
+      
+      if (!user) {
+        req.session.destroy(() => {});
+        return res.status(401).json({ message: "User not found" });
+      }
+      
+      if (isPresenterDevice(user)) {
+        if (!findDeviceGrant(req.session.presenterToken)) {
+          req.session.destroy(() => {});
+          return res.status(401).json({ message: "This presenter link has expired" });
+        }
+        
+        return res.json({
+          id: user.id,
+          username: user.username,
+          isAdmin: false,
+          isPresenterDevice: true
+        });
+      }
+      
+      // If user is not admin, get peer details
+      if (!user.isAdmin) {
+        const peer = await storage.getPeerByUserId(user.id);
+        if (peer) {
+          return res.json({
+            id: user.id,
+            username: user.username,
+            isAdmin: user.isAdmin,
+            name: peer.name,
+            usn: peer.usn
+          });
+        }
+      }
+      
+      res.json({
+        id: user.id,
+        username: user.username,
+        isAdmin: user.isAdmin
+      });
+    } catch (error) {
+      console.error("Auth check error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // ICE servers for screen sharing. TURN credentials are issued per user and
+  // expire, so clients fetch this again before they run out.
+  app.get("/api/rtc-config", (req: RequestWithSession, res) => {
+    if (!req.session.userId) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    res.set("Cache-Control", "no-store");
+    res.json(buildRtcConfig(req.session.userId));
+  });
+  
+  // Sign in a presenter device with the token from an admin's link. The
+  // device joins the granting room on connect and may only share its screen.
+  app.post("/api/auth/presenter-login", async (req: RequestWithSession, res) => {
+    try {
+      const { token } = presenterLoginSchema.parse(req.body);
+      
+      const state = findDeviceGrant(token);
+      if (!state?.shareGrant) {
+        return res.status(401).json({ message: "This presenter link has expired. Ask the admin for a new one." });
+      }
+      
+      req.session.userId = state.shareGrant.userId;
+      req.session.isAdmin = false;
+      req.session.presenterToken = token;
+      
+      const user = await storage.getUser(state.shareGrant.userId);
+      res.json({
+        id: state.shareGrant.userId,
+        username: user?.username,
+        isAdmin: false,
+        isPresenterDevice: true
+      });
+    } catch (error) {
+      console.error("Presenter login error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Tells the login form whether to ask for the join PIN
+  app.get("/api/auth/login-options", async (_req, res) => {
+    try {
+      const { joinPin } = await storage.getEventSettings();
+      res.json({ requiresPin: !!joinPin });
+    } catch (error) {
+      console.error("Login options error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Event settings routes
+  app.get("/api/settings", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      res.json(await storage.getEventSettings());
+    } catch (error) {
+      console.error("Get settings error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.put("/api/settings", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const updates = eventSettingsSchema.parse(req.body);
+      const updatedSettings = await storage.updateEventSettings(updates);
+      
+      // Presenting members' evaluation panels depend on this setting
+      if (updates.allowSelfAssessment !== undefined) {
+        for (const state of Array.from(rooms.values())) {
+          if (state.activeSession && state.activeTeam && state.activeRubric) {
+            broadcastToRoom(state, await buildSessionUpdate(state.activeSession, state.activeTeam, state.activeRubric));
+          }
+        }
+      }
+      
+      res.json(updatedSettings);
+    } catch (error) {
+      console.error("Update settings error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Roster routes
+  app.get("/api/roster", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      res.json(await storage.getAllRosterStudents());
+    } catch (error) {
+      console.error("Get roster error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.post("/api/roster", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const { students } = rosterImportSchema.parse(req.body);
+      res.json(await storage.upsertRosterStudents(students));
+    } catch (error) {
+      console.error("Roster import error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.delete("/api/roster/:id", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const deleted = await storage.deleteRosterStudent(Number(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      
+      res.json({ message: "Student removed from roster" });
+    } catch (error) {
+      console.error("Roster delete error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Admin account routes
+  const toAdminUserResponse = (user: User) => ({
+    id: user.id,
+    username: user.username,
+    isDisabled: user.isDisabled
+  });
+  
+  app.get("/api/admin/users", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const admins = await storage.getAdminUsers();
+      res.json(admins.map(toAdminUserResponse));
+    } catch (error) {
+      console.error("Get admin users error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.post("/api/admin/users", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const { username, password } = createAdminUserSchema.parse(req.body);
+      
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "That username is already taken" });
+      }
+      
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+        isAdmin: true
+      });
+      
+      res.json(toAdminUserResponse(user));
+    } catch (error) {
+      console.error("Admin user creation error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.patch("/api/admin/users/:id", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const id = Number(req.params.id);
+      const existing = await storage.getUser(id);
+      if (!existing || !existing.isAdmin) {
+        return res.status(404).json({ message: "Admin user not found" });
+      }
+      
+      const { isDisabled } = updateAdminUserSchema.parse(req.body);
+      
+      // Never leave the system without an admin who can log in
+      if (isDisabled && id === req.session.userId) {
+        return res.status(400).json({ message: "You cannot disable your own account" });
+      }
+      
+      const user = await storage.updateUser(id, { isDisabled });
+      if (isDisabled) {
+        disconnectUser(id);
+      }
+      
+      res.json(toAdminUserResponse(user));
+    } catch (error) {
+      console.error("Admin user update error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.post("/api/admin/users/:id/reset-password", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const id = Number(req.params.id);
+      const existing = await storage.getUser(id);
+      if (!existing || !existing.isAdmin) {
+        return res.status(404).json({ message: "Admin user not found" });
+      }
+      
+      const { password } = resetPasswordSchema.parse(req.body);
+      const user = await storage.updateUser(id, { password: await hashPassword(password) });
+      
+      res.json(toAdminUserResponse(user));
+    } catch (error) {
+      console.error("Password reset error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Team routes
+  app.post("/api/teams", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const { teams } = req.body;
+      
+      if (!Array.isArray(teams)) {
+        return res.status(400).json({ message: "Teams must be an array" });
+      }
+      
+      const savedTeams = [];
+      
+      for (const team of teams) {
+        const validatedTeam = insertTeamSchema.parse({
+          ...team,
+          createdBy: req.session.userId
+        });
+        
+        const savedTeam = await storage.createTeam(validatedTeam);
+        savedTeams.push(savedTeam);
+        
+        // Team members are always allowed to log in as peers
+        await storage.upsertRosterStudents(
+          savedTeam.members.map((member) => insertRosterStudentSchema.parse(member))
+        );
+      }
+      
+      res.json(savedTeams);
+    } catch (error) {
+      console.error("Team upload error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.get("/api/teams", async (req, res) => {
+    try {
+      const teams = await storage.getAllTeams();
+      res.json(teams);
+    } catch (error) {
+      console.error("Get teams error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Rubric routes
+  app.get("/api/rubrics", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const allRubrics = await storage.getAllRubrics();
+      res.json(allRubrics);
+    } catch (error) {
+      console.error("Get rubrics error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.post("/api/rubrics", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const { name, criteria, isDefault } = rubricFormSchema.parse(req.body);
+      const rubric = await storage.createRubric({
+        name,
+        criteria,
+        isDefault: isDefault ?? false,
+        createdBy: req.session.userId,
+        createdAt: new Date()
+      });
+      
+      res.json(rubric);
+    } catch (error) {
+      console.error("Rubric creation error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.put("/api/rubrics/:id", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const id = Number(req.params.id);
+      const existing = await storage.getRubric(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Rubric not found" });
+      }
+      
+      const { name, criteria, isDefault } = rubricFormSchema.parse(req.body);
+      
+      // Scores already recorded against a rubric must keep their meaning
+      const criteriaChanged = JSON.stringify(criteria) !== JSON.stringify(existing.criteria);
+      if (criteriaChanged && await storage.isRubricInUse(id)) {
+        return res.status(409).json({ message: "This rubric has been used in a presentation. Create a new rubric instead of changing its criteria." });
+      }
+      
+      const rubric = await storage.updateRubric(id, {
+        name,
+        criteria,
+        ...(isDefault ? { isDefault } : {})
+      });
+      
+      res.json(rubric);
+    } catch (error) {
+      console.error("Rubric update error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Room routes
+  app.post("/api/rooms", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const { name } = createRoomSchema.parse(req.body);
+      
+      // Codes are short enough to read out in class, so retry on collision
+      let code = generateRoomCode();
+      while (await storage.getRoomByCode(code)) {
+        code = generateRoomCode();
+      }
+      
+      const room = await storage.createRoom({
+        code,
+        name,
+        createdBy: req.session.userId,
+        createdAt: new Date()
+      });
+      
+      res.json(room);
+    } catch (error) {
+      console.error("Room creation error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.get("/api/rooms", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const allRooms = await storage.getAllRooms();
+      res.json(allRooms.map(room => ({
+        ...room,
+        activeTeam: rooms.get(room.id)?.activeTeam ?? null
+      })));
+    } catch (error) {
+      console.error("Get rooms error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Session history routes
+  const roomInfo = (room: Room | undefined) =>
+    room ? { id: room.id, code: room.code, name: room.name } : null;
+  
+  const withPeers = (list: Evaluation[]): Promise<EvaluationWithPeer[]> =>
+    Promise.all(list.map(async (evaluation) => {
+      // Evaluations record the evaluator's user id
+      const peer = await storage.getPeerByUserId(evaluation.peerId);
+      return {
+        ...evaluation,
+        peer: peer ? { id: peer.id, name: peer.name, usn: peer.usn } : null
+      };
+    }));
+  
+  app.get("/api/sessions", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const { page, pageSize, teamId, completed, from, to } = sessionHistoryQuerySchema.parse(req.query);
+      const { sessions, total } = await storage.getPresentationSessions({
+        teamId,
+        completed,
+        from,
+        to,
+        limit: pageSize,
+        offset: (page - 1) * pageSize
+      });
+      
+      // Teams, rooms and rubrics repeat across a page, so look each up once
+      const teamsById = new Map((await storage.getAllTeams()).map(team => [team.id, team]));
+      const roomsById = new Map((await storage.getAllRooms()).map(room => [room.id, room]));
+      const rubricsById = new Map((await storage.getAllRubrics()).map(rubric => [rubric.id, rubric]));
+      
+      const summaries: SessionSummary[] = await Promise.all(sessions.map(async (session) => {
+        const sessionEvaluations = await storage.getEvaluationsBySessionId(session.id);
+        const rubric = rubricsById.get(session.rubricId);
+        return {
+          ...session,
+          team: teamsById.get(session.teamId) ?? null,
+          room: roomInfo(roomsById.get(session.roomId)),
+          evaluationCount: sessionEvaluations.length,
+          overallAverage: rubric && sessionEvaluations.length > 0
+            ? calculateAverages(rubric.criteria, sessionEvaluations).overall
+            : null
+        };
+      }));
+      
+      res.json({ sessions: summaries, total, page, pageSize });
+    } catch (error) {
+      console.error("Get sessions error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.get("/api/sessions/:id", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const session = await storage.getPresentationSession(Number(req.params.id));
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      const rubric = await storage.getRubric(session.rubricId);
+      const sessionEvaluations = await storage.getEvaluationsBySessionId(session.id);
+      
+      const detail: SessionDetail = {
+        session,
+        team: await storage.getTeam(session.teamId) ?? null,
+        room: roomInfo(await storage.getRoom(session.roomId)),
+        rubric: rubric ?? null,
+        evaluations: await withPeers(sessionEvaluations),
+        selfAssessments: await withPeers(await storage.getSelfAssessmentsBySessionId(session.id)),
+        averages: rubric ? calculateAverages(rubric.criteria, sessionEvaluations) : null,
+        feedback: await storage.getAIFeedbackBySessionId(session.id) ?? null,
+        feedbackJob: (await storage.getFeedbackJobsBySessionId(session.id))[0] ?? null,
+        recordings: await storage.getSessionRecordingsBySessionId(session.id)
+      };
+      
+      res.json(detail);
+    } catch (error) {
+      console.error("Get session error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Regenerate a past session's feedback in the background. Progress is
+  // pushed to admins as feedback_job_update messages.
+  app.post("/api/sessions/:id/feedback", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const session = await storage.getPresentationSession(Number(req.params.id));
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      if (session.isActive) {
+        return res.status(400).json({ message: "Feedback is generated once the presentation has ended" });
+      }
+      
+      if ((await storage.getEvaluationsBySessionId(session.id)).length === 0) {
+        return res.status(400).json({ message: "This session has no peer evaluations to summarize" });
+      }
+      
+      const job = await enqueueFeedbackJob(session.id, req.session.userId);
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Regenerate feedback error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Feedback review: the current text, its version history and what has
+  // been published to the presenting team
+  app.get("/api/sessions/:id/feedback", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const review = await loadFeedbackReview(Number(req.params.id));
+      if (!review) {
+        return res.status(404).json({ message: "No feedback has been generated for this session" });
+      }
+      
+      res.json(review);
+    } catch (error) {
+      console.error("Get feedback error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Save an admin's edit as a new version. It stays unpublished until approved.
+  app.put("/api/sessions/:id/feedback", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const edit = feedbackEditSchema.parse(req.body);
+      const sessionId = Number(req.params.id);
+      
+      const existing = await storage.getAIFeedbackBySessionId(sessionId);
+      if (!existing) {
+        return res.status(404).json({ message: "No feedback has been generated for this session" });
+      }
+      
+      // Another admin, or a regeneration, got there first
+      if (existing.version !== edit.baseVersion) {
+        return res.status(409).json({
+          message: `The feedback was changed to version ${existing.version} while you were editing. Reload it and reapply your changes.`
+        });
+      }
+      
+      await saveFeedbackVersion(sessionId, {
+        strengths: edit.strengths,
+        improvements: edit.improvements,
+        provider: existing.provider,
+        model: existing.model
+      }, req.session.userId);
+      
+      res.json(await loadFeedbackReview(sessionId));
+    } catch (error) {
+      console.error("Edit feedback error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Approve a version for the presenting team. Only the current version can
+  // be published, so what was reviewed is exactly what they see.
+  app.post("/api/sessions/:id/feedback/publish", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const { version } = feedbackPublishSchema.parse(req.body);
+      const sessionId = Number(req.params.id);
+      
+      const existing = await storage.getAIFeedbackBySessionId(sessionId);
+      if (!existing) {
+        return res.status(404).json({ message: "No feedback has been generated for this session" });
+      }
+      
+      if (existing.version !== version) {
+        return res.status(409).json({
+          message: `Version ${version} is no longer the current version. Review version ${existing.version} before publishing.`
+        });
+      }
+      
+      await publishFeedback(existing, req.session.userId);
+      res.json(await loadFeedbackReview(sessionId));
+    } catch (error) {
+      console.error("Publish feedback error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Withdraw published feedback from the presenting team
+  app.delete("/api/sessions/:id/feedback/publish", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const sessionId = Number(req.params.id);
+      const existing = await storage.getAIFeedbackBySessionId(sessionId);
+      if (!existing) {
+        return res.status(404).json({ message: "No feedback has been generated for this session" });
+      }
+      
+      await storage.updateAIFeedback(existing.id, {
+        publishedVersion: null,
+        publishedAt: null,
+        publishedBy: null
+      });
+      res.json(await loadFeedbackReview(sessionId));
+    } catch (error) {
+      console.error("Unpublish feedback error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // A student's own team feedback. Membership is by USN in team.members, and
+  // only sessions whose feedback an admin has published are included.
+  app.get("/api/my-feedback", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const peer = await storage.getPeerByUserId(req.session.userId);
+      if (!peer) {
+        return res.status(403).json({ message: "Only students can view team feedback" });
+      }
+      
+      const memberOf = (await storage.getAllTeams()).filter((team) => isTeamMember(team, peer.usn));
+      res.json(await loadPublishedFeedback(memberOf));
+    } catch (error) {
+      console.error("Get team feedback error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Leaderboard route. Admins always see the ranking; everyone else, including
+  // the projector view, only once it has been made visible.
+  app.get("/api/leaderboard", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const eventSettings = await storage.getEventSettings();
+      if (!req.session.isAdmin && !eventSettings.leaderboardVisible) {
+        return res.json({
+          visible: false,
+          tieBreak: eventSettings.leaderboardTieBreak,
+          criteria: [],
+          entries: []
+        });
+      }
+      
+      res.json(await buildLeaderboard(eventSettings));
+    } catch (error) {
+      console.error("Get leaderboard error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Grade report routes
+  app.get("/api/grades", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      res.json(await buildGradeReport(await storage.getEventSettings()));
+    } catch (error) {
+      console.error("Get grades error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.get("/api/grades.csv", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const { formula, students } = await buildGradeReport(await storage.getEventSettings());
+      const csv = toCsv([
+        ["USN", "Name", "Team", "Team Score", "Sessions Evaluated", "Sessions Missed", "Participation %", `Grade (out of ${formula.maxGrade})`],
+        ...students.map(student => [
+          student.usn,
+          student.name,
+          student.teamName,
+          student.teamScore?.toFixed(2),
+          student.sessionsEvaluated,
+          student.sessionsMissed,
+          (student.participationRate * 100).toFixed(0),
+          student.grade?.toFixed(2)
+        ])
+      ]);
+      
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="grades.csv"');
+      res.send(csv);
+    } catch (error) {
+      console.error("Export grades error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Every evaluation of one session, with evaluator names, for spreadsheets
+  app.get("/api/sessions/:id/results.csv", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const session = await storage.getPresentationSession(Number(req.params.id));
+      const team = session && await storage.getTeam(session.teamId);
+      const rubric = session && await storage.getRubric(session.rubricId);
+      if (!session || !team || !rubric) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      const criteria = rubric.criteria;
+      const sessionEvaluations = await withPeers(await storage.getEvaluationsBySessionId(session.id));
+      const averages = calculateAverages(criteria, sessionEvaluations);
+      
+      const csv = toCsv([
+        ["Team", "Evaluator", "USN", ...criteria.map(criterion => criterion.label), "Overall", "Positive Points", "Negative Points"],
+        ...sessionEvaluations.map(evaluation => [
+          team.name,
+          evaluation.peer?.name,
+          evaluation.peer?.usn,
+          ...criteria.map(criterion => evaluation.scores[criterion.key]),
+          weightedOverall(criteria, evaluation.scores).toFixed(1),
+          evaluation.positivePoints,
+          evaluation.negativePoints
+        ]),
+        ...(sessionEvaluations.length > 0 ? [[
+          team.name,
+          "AVERAGE",
+          "",
+          ...criteria.map(criterion => (averages.criteria[criterion.key] ?? 0).toFixed(1)),
+          averages.overall.toFixed(1),
+          "",
+          ""
+        ]] : [])
+      ]);
+      
+      const slug = toFileSlug(team.name);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${slug}-results.csv"`);
+      res.send(csv);
+    } catch (error) {
+      console.error("Export session results error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // LMS gradebook import files, ?format=moodle or ?format=canvas
+  app.get("/api/gradebook.csv", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const format = gradebookFormatSchema.parse(req.query.format);
+      const csv = await buildGradebookCsv(format, await storage.getEventSettings());
+      
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="gradebook-${format}.csv"`);
+      res.send(csv);
+    } catch (error) {
+      console.error("Export gradebook error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Recording routes. The sharing client records its own stream and uploads
+  // it in chunks while the presentation runs.
+  
+  // Whether the user is sharing their screen in the room right now
+  const isSharingInRoom = (userId: number, roomId: number) => {
+    const sharerId = rooms.get(roomId)?.screenSharerId;
+    return !!sharerId && Array.from(clients.values()).some(c => c.id === sharerId && c.userId === userId);
+  };
+  
+  app.post("/api/sessions/:id/recordings", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      
+      const { mimeType } = startRecordingSchema.parse(req.body);
+      const session = await storage.getPresentationSession(Number(req.params.id));
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      if (!session.isActive) {
+        return res.status(400).json({ message: "Recordings can only be started during the presentation" });
+      }
+      
+      if (!isSharingInRoom(req.session.userId, session.roomId)) {
+        return res.status(403).json({ message: "Only the person sharing their screen can record it" });
+      }
+      
+      res.status(201).json(await startRecording(session.id, req.session.userId, mimeType));
+    } catch (error) {
+      console.error("Start recording error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // Chunks may still arrive after the presentation has ended, since the
+  // recorder flushes its last one when sharing stops
+  app.put(
+    "/api/recordings/:id/chunks/:seq",
+    express.raw({ type: "application/octet-stream", limit: "32mb" }),
+    async (req: RequestWithSession, res) => {
+      try {
+        if (!req.session.userId) {
+          return res.status(401).json({ message: "Not authenticated" });
+        }
+        
+        const seq = Number(req.params.seq);
+        if (!Number.isInteger(seq) || seq < 0 || !Buffer.isBuffer(req.body)) {
+          return res.status(400).json({ message: "Send chunks as application/octet-stream with a chunk number" });
+        }
+        
+        const recording = await storage.getSessionRecording(Number(req.params.id));
+        if (!recording || recording.recordedBy !== req.session.userId) {
+          return res.status(404).json({ message: "Recording not found" });
+        }
+        
+        const result = await appendRecordingChunk(recording.id, seq, req.body);
+        if (!result.success) {
+          return res.status(result.status).json({ message: result.message });
+        }
+        
+        res.json(result.recording);
+      } catch (error) {
+        console.error("Recording chunk error:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  );
+  
+  app.post("/api/recordings/:id/finish", async (req: RequestWithSession, res) => {
     try {
-      const user = await storage.getUser(req.session.userId);
-      
-      if (!user) {
-        req.session.destroy(() => {});
-        return res.status(401).json({ message: "User not found" });
+      if (!req.session.userId) {
+        return res.status(401).json({ message: "Not authenticated" });
       }
       
-      // If user is not admin, get peer details
-      if (!user.isAdmin) {
-        const peer = await storage.getPeerByUserId(user.id);
-        if (peer) {
-          return res.json({
-            id: user.id,
-            username: user.username,
-            isAdmin: user.isAdmin,
-            name: peer.name,
-            usn: peer.usn
-          });
-        }
+      const recording = await storage.getSessionRecording(Number(req.params.id));
+      if (!recording || recording.recordedBy !== req.session.userId) {
+        return res.status(404).json({ message: "Recording not found" });
       }
       
-      res.json({
-        id: user.id,
-        username: user.username,
-        isAdmin: user.isAdmin
-      });
+      res.json(await finishRecording(recording.id));
     } catch (error) {
-      console.error("Auth check error:", error);
+      console.error("Finish recording error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  // Team routes
-  app.post("/api/teams", async (req: RequestWithSession, res) => {
+  // Served with range support so the player can seek
+  app.get("/api/recordings/:id/video", async (req: RequestWithSession, res) => {
     try {
       if (!req.session.userId || !req.session.isAdmin) {
         return res.status(403).json({ message: "Not authorized" });
       }
       
-      const { teams } = req.body;
-      
-      if (!Array.isArray(teams)) {
-        return res.status(400).json({ message: "Teams must be an array" });
+      const recording = await storage.getSessionRecording(Number(req.params.id));
+      if (!recording) {
+        return res.status(404).json({ message: "Recording not found" });
       }
       
-      const savedTeams = [];
+      res.sendFile(recordingPath(recording), (error) => {
+        if (error && !res.headersSent) {
+          console.error("Recording video error:", error);
+          res.status(404).json({ message: "The recording file is missing" });
+        }
+      });
+    } catch (error) {
+      console.error("Recording video error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // PDF report routes
+  const setPdfHeaders = (res: Response, filename: string) => {
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  };
+  
+  app.get("/api/sessions/:id/report.pdf", async (req: RequestWithSession, res) => {
+    try {
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
       
-      for (const team of teams) {
-        const validatedTeam = insertTeamSchema.parse({
-          ...team,
-          createdBy: req.session.userId
-        });
-        
-        const savedTeam = await storage.createTeam(validatedTeam);
-        savedTeams.push(savedTeam);
+      const session = await storage.getPresentationSession(Number(req.params.id));
+      const report = session && await loadTeamReport(session);
+      if (!report) {
+        return res.status(404).json({ message: "Session not found" });
       }
       
-      res.json(savedTeams);
+      const slug = toFileSlug(report.team.name);
+      setPdfHeaders(res, `${slug}-feedback.pdf`);
+      writeReportPdf([report], `${report.team.name}: ${report.team.projectTitle}`, res);
     } catch (error) {
-      console.error("Team upload error:", error);
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: error.errors[0].message });
-      }
+      console.error("Session report error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
-  app.get("/api/teams", async (req, res) => {
+  // One combined PDF with the latest presentation of every team
+  app.get("/api/reports/event.pdf", async (req: RequestWithSession, res) => {
     try {
-      const teams = await storage.getAllTeams();
-      res.json(teams);
+      if (!req.session.userId || !req.session.isAdmin) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      
+      const reports = await loadEventReports();
+      setPdfHeaders(res, "event-feedback.pdf");
+      writeReportPdf(reports, "Event Feedback Report", res);
     } catch (error) {
-      console.error("Get teams error:", error);
+      console.error("Event report error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
   
   // ===== WEBSOCKET HANDLERS =====
   
-  wss.on('connection', async (ws, req) => {
-    console.log('Client connected');
+  // Function to get the peers connected to a room
+  const getPeersList = async (roomId: number): Promise<{ id: number; name: string }[]> => {
+    const connectedPeers: { id: number; name: string }[] = [];
+    const nonAdminClients = Array.from(clients.values()).filter(
+      c => !c.isAdmin && c.roomId === roomId
+    );
     
-    // Function to get peers list
-    const getPeersList = async (): Promise<{ id: number; name: string }[]> => {
-      const connectedPeers: { id: number; name: string }[] = [];
-      const nonAdminClients = Array.from(clients.values()).filter(c => !c.isAdmin && c.userId > 0);
-      
-      for (const c of nonAdminClients) {
-        try {
-          const peer = await storage.getPeerByUserId(c.userId);
-          if (peer) {
-            connectedPeers.push({
-              id: peer.id,
-              name: peer.name
-            });
-          }
-        } catch (error) {
-          console.error("Error getting peer info:", error);
+    for (const c of nonAdminClients) {
+      try {
+        const peer = await storage.getPeerByUserId(c.userId);
+        if (peer) {
+          connectedPeers.push({
+            id: peer.id,
+            name: peer.name
+          });
         }
+      } catch (error) {
+        console.error("Error getting peer info:", error);
       }
-      
-      return connectedPeers;
-    };
+    }
+    
+    return connectedPeers;
+  };
+  
+  // Send the room's peer list to its admins
+  const broadcastPeers = async (state: RoomState) => {
+    const peersList = await getPeersList(state.room.id);
+    broadcastToRoom(state, {
+      type: "peers_update",
+      payload: {
+        peers: peersList
+      }
+    }, c => c.isAdmin);
+  };
+  
+  wss.on('connection', async (ws: WebSocket, _req: IncomingMessage, user: User) => {
+    console.log('Client connected');
     
     // Function to send state updates to a client
     const sendState = async (client: WebSocket) => {
-      if (client.readyState === WebSocket.OPEN) {
-        // Send session update if active
-        if (activeSession && activeTeam) {
-          client.send(JSON.stringify({
-            type: "session_update",
-            payload: {
-              session: activeSession,
-              team: activeTeam
-            }
-          }));
+      if (client.readyState !== WebSocket.OPEN) return;
+      
+      const currentClient = clients.get(client);
+      const state = currentClient?.roomId ? rooms.get(currentClient.roomId) : undefined;
+      
+      send(client, {
+        type: "room_update",
+        payload: { room: state?.room ?? null }
+      });
+      
+      // Nothing else to send until the client has joined a room
+      if (!currentClient || !state) return;
+      
+      // Send session update if active
+      if (state.activeSession && state.activeTeam && state.activeRubric) {
+        send(client, await buildSessionUpdate(state.activeSession, state.activeTeam, state.activeRubric));
+      }
+      
+      // Send timer update
+      send(client, {
+        type: "timer_update",
+        payload: {
+          seconds: state.timerSeconds,
+          isRunning: state.isTimerRunning
+        }
+      });
+      
+      send(client, buildShareGrantUpdate(state, currentClient.isAdmin));
+      
+      // Late joiners answer this with screen_share_request to get an offer
+      if (state.screenSharerId && state.screenSharerId !== currentClient.id) {
+        send(client, { type: "screen_share_start" });
+        if (state.isSharerCameraOn) {
+          send(client, { type: "screen_share_camera", payload: { enabled: true } });
         }
+      }
+      
+      // If the client is admin, send connected peers info
+      if (currentClient.isAdmin) {
+        const peersList = await getPeersList(state.room.id);
         
-        // Send timer update
-        client.send(JSON.stringify({
-          type: "timer_update",
+        send(client, {
+          type: "peers_update",
           payload: {
-            seconds: timerSeconds,
-            isRunning: isTimerRunning
+            peers: peersList
+          }
+        });
+      }
+      
+      // Replay evaluations received so far for the active session
+      if (state.activeSession && state.activeRubric) {
+        if (currentClient.isAdmin) {
+          const sessionEvaluations = await storage.getEvaluationsBySessionId(state.activeSession.id);
+          if (sessionEvaluations.length > 0) {
+            send(client, buildEvaluationUpdate(state.activeRubric, sessionEvaluations));
+          }
+        } else {
+          const existingEvaluation = await storage.getEvaluationBySessionAndPeer(
+            state.activeSession.id,
+            currentClient.userId
+          );
+          if (existingEvaluation) {
+            send(client, {
+              type: "evaluation_submitted",
+              payload: { success: true }
+            });
           }
-        }));
-        
-        // If the client is admin, send connected peers info
-        const currentClient = clients.get(client);
-        if (currentClient && currentClient.isAdmin) {
-          const peersList = await getPeersList();
-          
-          client.send(JSON.stringify({
-            type: "peers_update",
-            payload: {
-              peers: peersList
-            }
-          }));
         }
       }
     };
     
-    // Get session info
-    let userId = 0;
-    let isAdmin = false;
-    
-    // Try to get user from session
-    if (req.url?.includes('?')) {
-      const params = new URLSearchParams(req.url.split('?')[1]);
-      const sessionId = params.get('sessionId');
-      
-      if (sessionId) {
-        console.log(`WebSocket connection with sessionId: ${sessionId}`);
-        // Validate the session ID
-        try {
-          const sessionIdNum = parseInt(sessionId);
-          if (!isNaN(sessionIdNum)) {
-            const user = await storage.getUserById(sessionIdNum);
-            if (user) {
-              console.log(`Found user for session ID: ${sessionId}, isAdmin: ${user.isAdmin}`);
-              userId = user.id;
-              isAdmin = user.isAdmin || false;
-            } else {
-              console.log(`No user found for session ID: ${sessionId}`);
-            }
-          } else {
-            console.log(`Invalid session ID format: ${sessionId}`);
-          }
-        } catch (error) {
-          console.error("Error getting user from session:", error);
-        }
-      } else {
-        console.log("No sessionId provided in WebSocket connection URL");
+    // Move a client out of its current room, notifying that room's admins
+    // and its screen sharer
+    const leaveRoom = async (client: Client) => {
+      const previous = client.roomId ? rooms.get(client.roomId) : undefined;
+      client.roomId = null;
+      
+      if (previous?.screenSharerId === client.id) {
+        endScreenShare(previous);
+      } else if (previous?.screenSharerId) {
+        sendToClient(previous, previous.screenSharerId, {
+          type: "screen_share_viewer_left",
+          payload: { clientId: client.id }
+        });
       }
-    } else {
-      console.log("No query parameters in WebSocket connection URL");
-    }
+      
+      if (previous && !client.isAdmin) {
+        await broadcastPeers(previous);
+      }
+    };
     
-    // Store client info
-    clients.set(ws, { socket: ws, userId, isAdmin });
+    // The upgrade handler has already resolved the user from the session cookie
+    const userId = user.id;
+    const isAdmin = user.isAdmin || false;
+    console.log(`WebSocket connection for userId: ${userId}, isAdmin: ${isAdmin}`);
+    
+    // The room whose current session granted this presenter device its link
+    const findGrantingRoom = (): RoomState | undefined =>
+      Array.from(rooms.values()).find(
+        (state) => !!state.activeSession && state.shareGrant?.kind === "device" && state.shareGrant.userId === userId
+      );
+    
+    // Store client info. Clients start outside any room and must send join_room.
+    // Presenter devices are placed straight into the room that granted them
+    const grantingRoom = isPresenterDevice(user) ? findGrantingRoom() : undefined;
+    
+    clients.set(ws, { id: randomUUID(), socket: ws, userId, isAdmin, roomId: grantingRoom?.room.id ?? null });
     
     // Send current state to the client
     sendState(ws);
     
-    // Broadcast peer list update to admins if a non-admin connected
-    if (!isAdmin && userId > 0) {
-      console.log(`New peer connected with userId: ${userId}`);
-      
-      // Get updated peer list
-      const peersList = await getPeersList();
-      
-      // Send update to all admin clients
-      clients.forEach((c, socket) => {
-        if (c.isAdmin && socket.readyState === WebSocket.OPEN) {
-          console.log(`Broadcasting peer update to admin`);
-          socket.send(JSON.stringify({
-            type: "peers_update",
-            payload: {
-              peers: peersList
-            }
-          }));
-        }
-      });
-    }
-    
     // Handle messages from client
     ws.on('message', async (message) => {
       try {
         const client = clients.get(ws);
         if (!client) return;
         
-        // Convert Buffer/ArrayBuffer to string
-        const messageStr = message.toString();
-        const data = JSON.parse(messageStr);
+        // Convert Buffer/ArrayBuffer to string and check it against the protocol
+        const parsed = parseClientMessage(message.toString());
+        if (!parsed.success) {
+          sendError(ws, "invalid_message", parsed.error);
+          return;
+        }
+        
+        const data = parsed.message;
         console.log('Received:', data);
         
+        if (data.type === "get_state") {
+          sendState(ws);
+          return;
+        }
+        
+        if (data.type === "join_room") {
+          const room = await storage.getRoomByCode(data.payload.code);
+          
+          if (!room) {
+            sendError(ws, "not_found", "Room not found", data.type);
+            send(ws, {
+              type: "room_update",
+              payload: { room: null }
+            });
+            return;
+          }
+          
+          // A presenter device's link is only good for the room that made it
+          if (isPresenterDevice(user) && findGrantingRoom()?.room.id !== room.id) {
+            sendError(ws, "forbidden", "This presenter device can only join the room its link was made for", data.type);
+            return;
+          }
+          
+          if (client.roomId !== room.id) {
+            await leaveRoom(client);
+            client.roomId = room.id;
+          }
+          
+          const state = getRoomState(room);
+          await sendState(ws);
+          
+          // Let the room's admins know a peer joined
+          if (!client.isAdmin) {
+            console.log(`Peer with userId ${client.userId} joined room ${room.code}`);
+            await broadcastPeers(state);
+          }
+          return;
+        }
+        
+        if (data.type === "leave_room") {
+          await leaveRoom(client);
+          await sendState(ws);
+          return;
+        }
+        
+        // Every other message acts on the client's room
+        const room = client.roomId ? rooms.get(client.roomId) : undefined;
+        if (!room) {
+          sendError(ws, "invalid_state", "Join a room first", data.type);
+          return;
+        }
+        
         switch (data.type) {
-          case "get_state":
-            sendState(ws);
-            break;
-            
           case "start_presentation":
             // Only admins can start presentations
             if (!client.isAdmin) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "Only admins can start presentations" }
-              }));
+              sendError(ws, "forbidden", "Only admins can start presentations", data.type);
               return;
             }
             
-            const { teamId } = data.payload;
+            const { teamId, rubricId } = data.payload;
             const team = await storage.getTeam(teamId);
             
             if (!team) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "Team not found" }
-              }));
+              sendError(ws, "not_found", "Team not found", data.type);
+              return;
+            }
+            
+            // Use the chosen rubric, or the default one
+            const rubric = rubricId
+              ? await storage.getRubric(rubricId)
+              : await storage.getDefaultRubric();
+            
+            if (!rubric) {
+              sendError(ws, "not_found", "Rubric not found", data.type);
               return;
             }
             
             // Create new session
             const newSession = await storage.createPresentationSession({
+              roomId: room.room.id,
               teamId,
+              rubricId: rubric.id,
               startTime: new Date(),
               isActive: true,
               createdBy: client.userId
             });
             
-            activeSession = newSession;
-            activeTeam = team;
-            timerSeconds = 0;
-            isTimerRunning = false;
+            // Share rights were for the previous team
+            revokeShareGrant(room);
+            
+            room.activeSession = newSession;
+            room.activeTeam = team;
+            room.activeRubric = rubric;
+            room.timerSeconds = 0;
+            room.isTimerRunning = false;
             
             // Reset timer if running
-            if (timerInterval) {
-              clearInterval(timerInterval);
-              timerInterval = null;
-            }
-            
-            // Broadcast to all clients
-            clients.forEach((c, socket) => {
-              if (socket.readyState === WebSocket.OPEN) {
-                socket.send(JSON.stringify({
-                  type: "session_update",
-                  payload: {
-                    session: activeSession,
-                    team: activeTeam
-                  }
-                }));
-                
-                socket.send(JSON.stringify({
-                  type: "timer_update",
-                  payload: {
-                    seconds: timerSeconds,
-                    isRunning: isTimerRunning
-                  }
-                }));
-              }
-            });
+            stopTimerInterval(room);
+            
+            // Broadcast to the room
+            broadcastToRoom(room, await buildSessionUpdate(newSession, team, rubric));
+            broadcastTimer(room);
             break;
             
           case "end_presentation":
             // Only admins can end presentations
             if (!client.isAdmin) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "Only admins can end presentations" }
-              }));
+              sendError(ws, "forbidden", "Only admins can end presentations", data.type);
               return;
             }
             
-            if (!activeSession) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "No active presentation to end" }
-              }));
+            if (!room.activeSession || !room.activeTeam || !room.activeRubric) {
+              sendError(ws, "invalid_state", "No active presentation to end", data.type);
               return;
             }
             
-            // Get evaluations for the session
-            const evaluations = await storage.getEvaluationsBySessionId(activeSession.id);
+            const endedSessionId = room.activeSession.id;
+            const evaluations = await storage.getEvaluationsBySessionId(endedSessionId);
             
-            // Generate AI feedback if there are evaluations
-            if (evaluations.length > 0) {
-              try {
-                const feedback = await generateAIFeedback(evaluations, activeTeam);
-                await storage.createAIFeedback({
-                  sessionId: activeSession.id,
-                  strengths: feedback.strengths,
-                  improvements: feedback.improvements,
-                  overallScore: feedback.overallScore,
-                  generatedAt: new Date()
-                });
-                
-                // Send feedback to all clients
-                clients.forEach((c, socket) => {
-                  if (socket.readyState === WebSocket.OPEN) {
-                    socket.send(JSON.stringify({
-                      type: "feedback_update",
-                      payload: { feedback }
-                    }));
-                  }
-                });
-              } catch (error) {
-                console.error("Error generating AI feedback:", error);
-              }
-            }
+            // Stop timer
+            stopTimerInterval(room);
+            room.isTimerRunning = false;
             
-            // Update session as ended
-            await storage.updatePresentationSession(activeSession.id, {
+            // Update session as ended, keeping the final timer value
+            await storage.updatePresentationSession(room.activeSession.id, {
               endTime: new Date(),
-              isActive: false
+              isActive: false,
+              timerSeconds: room.timerSeconds,
+              timerStartedAt: null
             });
             
-            // Stop timer
-            if (timerInterval) {
-              clearInterval(timerInterval);
-              timerInterval = null;
-            }
-            isTimerRunning = false;
+            // Share rights only last for the session they were granted in
+            revokeShareGrant(room);
             
             // Reset active session and team
-            activeSession = null;
-            activeTeam = null;
-            
-            // Broadcast to all clients
-            clients.forEach((c, socket) => {
-              if (socket.readyState === WebSocket.OPEN) {
-                socket.send(JSON.stringify({
-                  type: "session_end"
-                }));
-                
-                socket.send(JSON.stringify({
-                  type: "timer_update",
-                  payload: {
-                    seconds: 0,
-                    isRunning: false
-                  }
-                }));
+            room.activeSession = null;
+            room.activeTeam = null;
+            room.activeRubric = null;
+            room.timerSeconds = 0;
+            
+            // Broadcast to the room
+            broadcastToRoom(room, { type: "session_end" });
+            broadcastTimer(room);
+            
+            // Feedback is generated in the background so a slow provider
+            // does not hold up the event; it follows as feedback_update
+            if (evaluations.length > 0) {
+              try {
+                await enqueueFeedbackJob(endedSessionId);
+              } catch (error) {
+                console.error("Error queueing AI feedback:", error);
               }
-            });
+            }
             break;
             
           case "submit_evaluation":
             // Ensure a session is active
-            if (!activeSession) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "No active presentation to evaluate" }
-              }));
+            if (!room.activeSession || !room.activeRubric) {
+              sendError(ws, "invalid_state", "No active presentation to evaluate", data.type);
               return;
             }
             
             // Ensure the user is not an admin
             if (client.isAdmin) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "Admins cannot submit evaluations" }
-              }));
+              sendError(ws, "forbidden", "Admins cannot submit evaluations", data.type);
+              return;
+            }
+            
+            // Presenting members may only rate their own team as a self-assessment
+            const evaluator = await storage.getPeerByUserId(client.userId);
+            
+            // Presenter devices have an account but no student behind it
+            if (!evaluator) {
+              sendError(ws, "forbidden", "Only students can submit evaluations", data.type);
+              return;
+            }
+            
+            const isSelfAssessment = !!room.activeTeam && isTeamMember(room.activeTeam, evaluator.usn);
+            
+            if (isSelfAssessment && !(await storage.getEventSettings()).allowSelfAssessment) {
+              sendError(ws, "forbidden", "You cannot evaluate your own team's presentation", data.type);
               return;
             }
             
             // Check if already submitted
             const existingEvaluation = await storage.getEvaluationBySessionAndPeer(
-              activeSession.id,
+              room.activeSession.id,
               client.userId
             );
             
             if (existingEvaluation) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "You have already submitted an evaluation for this presentation" }
-              }));
+              sendError(ws, "invalid_state", "You have already submitted an evaluation for this presentation", data.type);
+              return;
+            }
+            
+            // Scores must match the session's rubric
+            const evaluationForm = buildEvaluationFormSchema(room.activeRubric.criteria).safeParse(data.payload);
+            if (!evaluationForm.success) {
+              sendError(ws, "invalid_message", evaluationForm.error.errors[0].message, data.type);
               return;
             }
             
             // Create evaluation
             const evaluationData = {
-              ...data.payload,
+              ...evaluationForm.data,
               peerId: client.userId,
-              sessionId: activeSession.id,
-              submittedAt: new Date()
+              sessionId: room.activeSession.id,
+              submittedAt: new Date(),
+              isSelfAssessment
             };
             
             const validatedEvaluation = insertEvaluationSchema.parse(evaluationData);
-            const savedEvaluation = await storage.createEvaluation(validatedEvaluation);
+            await storage.createEvaluation(validatedEvaluation);
+            
+            if (isSelfAssessment) {
+              send(ws, {
+                type: "evaluation_submitted",
+                payload: { success: true, isSelfAssessment: true }
+              });
+              break;
+            }
             
             // Get all evaluations for this session
-            const sessionEvaluations = await storage.getEvaluationsBySessionId(activeSession.id);
-            
-            // Calculate averages
-            const avgTechnicalContent = sessionEvaluations.reduce((sum, evaluation) => sum + evaluation.technicalContent, 0) / sessionEvaluations.length;
-            const avgPresentationSkills = sessionEvaluations.reduce((sum, evaluation) => sum + evaluation.presentationSkills, 0) / sessionEvaluations.length;
-            const avgProjectDemo = sessionEvaluations.reduce((sum, evaluation) => sum + evaluation.projectDemo, 0) / sessionEvaluations.length;
-            const avgOverall = (avgTechnicalContent + avgPresentationSkills + avgProjectDemo) / 3;
-            
-            // Broadcast evaluation update to admins
-            clients.forEach((c, socket) => {
-              if (c.isAdmin && socket.readyState === WebSocket.OPEN) {
-                socket.send(JSON.stringify({
-                  type: "evaluation_update",
-                  payload: {
-                    evaluations: sessionEvaluations,
-                    averages: {
-                      technicalContent: avgTechnicalContent,
-                      presentationSkills: avgPresentationSkills,
-                      projectDemo: avgProjectDemo,
-                      overall: avgOverall
-                    }
-                  }
-                }));
-              }
-            });
+            const sessionEvaluations = await storage.getEvaluationsBySessionId(room.activeSession.id);
+            
+            // Broadcast evaluation update to the room's admins
+            broadcastToRoom(room, buildEvaluationUpdate(room.activeRubric, sessionEvaluations), c => c.isAdmin);
             
             // Acknowledge submission to client
-            ws.send(JSON.stringify({
+            send(ws, {
               type: "evaluation_submitted",
               payload: { success: true }
-            }));
+            });
             break;
             
           case "timer_start":
             // Only admins can control timer
             if (!client.isAdmin) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "Only admins can control the timer" }
-              }));
+              sendError(ws, "forbidden", "Only admins can control the timer", data.type);
               return;
             }
             
-            if (!activeSession) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "No active presentation" }
-              }));
+            if (!room.activeSession) {
+              sendError(ws, "invalid_state", "No active presentation", data.type);
               return;
             }
             
-            isTimerRunning = true;
+            if (room.isTimerRunning) {
+              broadcastTimer(room);
+              break;
+            }
+            
+            room.isTimerRunning = true;
             
             // Start timer
-            if (!timerInterval) {
-              timerInterval = setInterval(() => {
-                timerSeconds++;
-                
-                // Broadcast timer update
-                clients.forEach((c, socket) => {
-                  if (socket.readyState === WebSocket.OPEN) {
-                    socket.send(JSON.stringify({
-                      type: "timer_update",
-                      payload: {
-                        seconds: timerSeconds,
-                        isRunning: isTimerRunning
-                      }
-                    }));
-                  }
-                });
-              }, 1000);
-            }
+            startTimerInterval(room);
+            await persistTimer(room);
+            await recordSessionEvent(room, "timer_start");
             
             // Broadcast timer state
-            clients.forEach((c, socket) => {
-              if (socket.readyState === WebSocket.OPEN) {
-                socket.send(JSON.stringify({
-                  type: "timer_update",
-                  payload: {
-                    seconds: timerSeconds,
-                    isRunning: isTimerRunning
-                  }
-                }));
-              }
-            });
+            broadcastTimer(room);
             break;
             
           case "timer_pause":
             // Only admins can control timer
             if (!client.isAdmin) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "Only admins can control the timer" }
-              }));
+              sendError(ws, "forbidden", "Only admins can control the timer", data.type);
               return;
             }
             
-            isTimerRunning = false;
+            room.isTimerRunning = false;
             
             // Stop timer
-            if (timerInterval) {
-              clearInterval(timerInterval);
-              timerInterval = null;
-            }
+            stopTimerInterval(room);
+            await persistTimer(room);
+            await recordSessionEvent(room, "timer_pause");
             
             // Broadcast timer state
-            clients.forEach((c, socket) => {
-              if (socket.readyState === WebSocket.OPEN) {
-                socket.send(JSON.stringify({
-                  type: "timer_update",
-                  payload: {
-                    seconds: timerSeconds,
-                    isRunning: isTimerRunning
-                  }
-                }));
-              }
-            });
+            broadcastTimer(room);
             break;
             
           case "timer_reset":
             // Only admins can control timer
             if (!client.isAdmin) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "Only admins can control the timer" }
-              }));
+              sendError(ws, "forbidden", "Only admins can control the timer", data.type);
               return;
             }
             
+            // Marked with the time it was reset from
+            await recordSessionEvent(room, "timer_reset");
+            
             // Reset timer
-            timerSeconds = 0;
-            isTimerRunning = false;
+            room.timerSeconds = 0;
+            room.isTimerRunning = false;
             
-            if (timerInterval) {
-              clearInterval(timerInterval);
-              timerInterval = null;
-            }
+            stopTimerInterval(room);
+            await persistTimer(room);
             
             // Broadcast timer state
-            clients.forEach((c, socket) => {
-              if (socket.readyState === WebSocket.OPEN) {
-                socket.send(JSON.stringify({
-                  type: "timer_update",
-                  payload: {
-                    seconds: timerSeconds,
-                    isRunning: isTimerRunning
-                  }
-                }));
-              }
-            });
+            broadcastTimer(room);
             break;
             
           case "screen_share_start":
-            // Only admins can share screen
-            if (!client.isAdmin) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "Only admins can share screen" }
-              }));
+            // Admins, and whoever they granted share rights for this session
+            if (!canShareScreen(client, room)) {
+              sendError(ws, "forbidden", "You have not been allowed to share your screen", data.type);
               return;
             }
             
-            // Broadcast screen share start to all non-admin clients
-            clients.forEach((c, socket) => {
-              if (!c.isAdmin && socket.readyState === WebSocket.OPEN) {
-                socket.send(JSON.stringify({
-                  type: "screen_share_start"
-                }));
-              }
+            if (room.screenSharerId && room.screenSharerId !== client.id) {
+              sendError(ws, "invalid_state", "Someone else is already sharing their screen", data.type);
+              return;
+            }
+            
+            // Viewers answer with screen_share_request, each getting its own offer
+            room.screenSharerId = client.id;
+            room.isSharerCameraOn = false;
+            broadcastToRoom(room, { type: "screen_share_start" }, c => c.id !== client.id);
+            send(ws, { type: "screen_share_started" });
+            break;
+            
+          case "screen_share_camera":
+            if (room.screenSharerId !== client.id) {
+              sendError(ws, "forbidden", "Only the screen sharer can turn its camera on or off", data.type);
+              return;
+            }
+            
+            // The camera travels on connections that are already open, so
+            // viewers only need to know whether to show it
+            room.isSharerCameraOn = data.payload.enabled;
+            broadcastToRoom(room, {
+              type: "screen_share_camera",
+              payload: { enabled: room.isSharerCameraOn }
+            }, c => c.id !== client.id);
+            break;
+            
+          case "screen_share_request":
+            if (!room.screenSharerId) {
+              sendError(ws, "invalid_state", "Nobody is sharing their screen", data.type);
+              return;
+            }
+            
+            sendToClient(room, room.screenSharerId, {
+              type: "screen_share_request",
+              payload: { from: client.id }
             });
             break;
             
           case "offer":
-            // Only admins can send offers (for screen sharing)
-            if (!client.isAdmin) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "Only admins can initiate screen sharing" }
-              }));
+            // Only the sharer sends offers, one per viewer
+            if (room.screenSharerId !== client.id) {
+              sendError(ws, "forbidden", "Only the screen sharer can send offers", data.type);
               return;
             }
             
-            // Broadcast offer to all non-admin clients
-            clients.forEach((c, socket) => {
-              if (!c.isAdmin && socket.readyState === WebSocket.OPEN) {
-                socket.send(JSON.stringify({
-                  type: "offer",
-                  payload: data.payload
-                }));
-              }
+            sendToClient(room, data.payload.to, {
+              type: "offer",
+              payload: { from: client.id, sdp: data.payload.sdp }
             });
             break;
             
           case "answer":
-            // Only peers can send answers
-            if (client.isAdmin) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "Only peers can send answers" }
-              }));
+            // Viewers answer the sharer and nobody else
+            if (!room.screenSharerId || data.payload.to !== room.screenSharerId) {
+              sendError(ws, "forbidden", "Answers can only be sent to the screen sharer", data.type);
               return;
             }
             
-            // Send answer to all admin clients
-            clients.forEach((c, socket) => {
-              if (c.isAdmin && socket.readyState === WebSocket.OPEN) {
-                socket.send(JSON.stringify({
-                  type: "answer",
-                  payload: data.payload
-                }));
-              }
+            sendToClient(room, data.payload.to, {
+              type: "answer",
+              payload: { from: client.id, sdp: data.payload.sdp }
             });
             break;
             
           case "ice_candidate":
-            // Send ICE candidate to all admin clients if from peer
-            if (!client.isAdmin) {
-              clients.forEach((c, socket) => {
-                if (c.isAdmin && socket.readyState === WebSocket.OPEN) {
-                  socket.send(JSON.stringify({
-                    type: "ice_candidate",
-                    payload: data.payload
-                  }));
-                }
-              });
-            } 
-            // Send ICE candidate to all peer clients if from admin
-            else {
-              clients.forEach((c, socket) => {
-                if (!c.isAdmin && socket.readyState === WebSocket.OPEN) {
-                  socket.send(JSON.stringify({
-                    type: "ice_candidate",
-                    payload: data.payload
-                  }));
-                }
-              });
+            // Candidates travel between the sharer and one of its viewers
+            if (!room.screenSharerId || (client.id !== room.screenSharerId && data.payload.to !== room.screenSharerId)) {
+              sendError(ws, "forbidden", "ICE candidates can only be exchanged with the screen sharer", data.type);
+              return;
             }
+            
+            sendToClient(room, data.payload.to, {
+              type: "ice_candidate",
+              payload: { from: client.id, candidate: data.payload.candidate }
+            });
             break;
             
           case "screen_share_stop":
-            // Only admins can stop screen share
+            // Nothing to do when the share already ended, e.g. rights were revoked
+            if (!room.screenSharerId) return;
+            
+            // Only the sharer can stop its screen share
+            if (room.screenSharerId !== client.id) {
+              sendError(ws, "forbidden", "Only the screen sharer can stop screen share", data.type);
+              return;
+            }
+            
+            endScreenShare(room);
+            break;
+            
+          case "grant_screen_share": {
             if (!client.isAdmin) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "Only admins can stop screen share" }
-              }));
+              sendError(ws, "forbidden", "Only admins can grant screen sharing", data.type);
+              return;
+            }
+            
+            if (!room.activeSession || !room.activeTeam) {
+              sendError(ws, "invalid_state", "Start a presentation before granting screen sharing", data.type);
               return;
             }
             
-            // Broadcast screen share stop
-            clients.forEach((c, socket) => {
-              if (!c.isAdmin && socket.readyState === WebSocket.OPEN) {
-                socket.send(JSON.stringify({
-                  type: "screen_share_stop"
-                }));
+            let grant: ShareGrant;
+            if (data.payload.kind === "member") {
+              if (!isTeamMember(room.activeTeam, data.payload.usn)) {
+                sendError(ws, "not_found", `${data.payload.usn} is not a member of ${room.activeTeam.name}`, data.type);
+                return;
               }
-            });
+              
+              const member = await storage.getPeerByUSN(normalizeUsn(data.payload.usn));
+              if (!member) {
+                sendError(ws, "not_found", `${data.payload.usn} has not logged in yet`, data.type);
+                return;
+              }
+              
+              grant = { kind: "member", userId: member.userId, name: member.name, usn: member.usn };
+            } else {
+              // A fresh token for every link, so earlier links stop working
+              const device = await getPresenterDeviceUser(room.room);
+              grant = { kind: "device", userId: device.id, token: randomBytes(24).toString("base64url") };
+            }
+            
+            // One grantee at a time
+            revokeShareGrant(room);
+            room.shareGrant = grant;
+            broadcastShareGrant(room);
+            break;
+          }
+            
+          case "revoke_screen_share":
+            if (!client.isAdmin) {
+              sendError(ws, "forbidden", "Only admins can revoke screen sharing", data.type);
+              return;
+            }
+            
+            revokeShareGrant(room);
             break;
             
           case "start_evaluation":
             // Only admins can start evaluations
             if (!client.isAdmin) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "Only admins can start evaluations" }
-              }));
+              sendError(ws, "forbidden", "Only admins can start evaluations", data.type);
               return;
             }
             
             // Ensure active session exists
-            if (!activeSession || !activeTeam) {
-              ws.send(JSON.stringify({
-                type: "error",
-                payload: { message: "No active presentation to evaluate" }
-              }));
+            if (!room.activeSession || !room.activeTeam) {
+              sendError(ws, "invalid_state", "No active presentation to evaluate", data.type);
               return;
             }
             
-            console.log("Starting evaluation for team:", activeTeam.name);
+            console.log("Starting evaluation for team:", room.activeTeam.name);
+            await recordSessionEvent(room, "evaluation_start");
             
-            // Broadcast evaluation start to all peer clients
-            clients.forEach((c, socket) => {
-              if (!c.isAdmin && socket.readyState === WebSocket.OPEN) {
-                socket.send(JSON.stringify({
-                  type: "start_evaluation",
-                  payload: {
-                    teamId: activeTeam.id,
-                    teamName: activeTeam.name,
-                    projectTitle: activeTeam.projectTitle
-                  }
-                }));
+            // Broadcast evaluation start to the room's peers
+            broadcastToRoom(room, {
+              type: "start_evaluation",
+              payload: {
+                teamId: room.activeTeam.id,
+                teamName: room.activeTeam.name,
+                projectTitle: room.activeTeam.projectTitle
               }
-            });
+            }, c => !c.isAdmin);
             break;
         }
       } catch (error) {
@@ -862,33 +2304,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Handle disconnection
     ws.on('close', async (code, reason) => {
       const client = clients.get(ws);
-      const clientType = client?.isAdmin ? 'admin' : (client && client.userId > 0 ? 'peer' : 'unknown');
+      const clientType = client?.isAdmin ? 'admin' : 'peer';
       console.log(`Client disconnected: ${clientType} with userId: ${client?.userId ?? 'none'}, code: ${code}, reason: ${reason || 'none'}`);
       
       clients.delete(ws);
       
-      // If a peer disconnected, notify all admins
-      if (client && !client.isAdmin && client.userId > 0) {
-        console.log(`Peer disconnected with userId: ${client.userId}, notifying admins`);
-        
-        // Get updated peer list
-        const peersList = await getPeersList();
-        console.log(`Updated peer list: ${JSON.stringify(peersList)}`);
-        
-        // Send update to all admin clients
-        let adminCount = 0;
-        clients.forEach((c, socket) => {
-          if (c.isAdmin && socket.readyState === WebSocket.OPEN) {
-            adminCount++;
-            socket.send(JSON.stringify({
-              type: "peers_update",
-              payload: {
-                peers: peersList
-              }
-            }));
-          }
-        });
-        console.log(`Notified ${adminCount} admins about peer disconnection`);
+      // If a peer disconnected, notify the admins of its room
+      if (client) {
+        await leaveRoom(client);
       }
     });
   });
@@ -0,0 +1,32 @@
+import { createHmac } from "crypto";
+import type { RtcConfig, RtcIceServer } from "@shared/schema";
+import { config } from "./config";
+
+// Credentials in the shared-secret scheme of the TURN REST API draft, which
+// coturn (use-auth-secret) and most hosted TURN services accept: the
+// username is "<expiry unix time>:<user id>" and the password is the
+// base64 HMAC-SHA1 of the username keyed with the secret. The TURN server
+// checks the signature and the expiry without calling back to us.
+function turnCredentials(secret: string, userId: number, expiresAt: Date) {
+  const username = `${Math.floor(expiresAt.getTime() / 1000)}:${userId}`;
+  const credential = createHmac("sha1", secret).update(username).digest("base64");
+  return { username, credential };
+}
+
+export function buildRtcConfig(userId: number, now: Date = new Date()): RtcConfig {
+  const { stunUrls, turnUrls, turnSecret, turnCredentialTtl } = config.rtc;
+  const iceServers: RtcIceServer[] = [];
+
+  if (stunUrls.length > 0) {
+    iceServers.push({ urls: stunUrls });
+  }
+
+  if (turnUrls.length === 0 || !turnSecret) {
+    return { iceServers, expiresAt: null };
+  }
+
+  const expiresAt = new Date(now.getTime() + turnCredentialTtl * 1000);
+  iceServers.push({ urls: turnUrls, ...turnCredentials(turnSecret, userId, expiresAt) });
+
+  return { iceServers, expiresAt };
+}
@@ -0,0 +1,51 @@
+import type { IncomingMessage } from "http";
+import type { Request, Response } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import MemoryStore from "memorystore";
+import { config } from "./config";
+
+// Sessions live next to the rest of the data, so logins survive a restart
+// whenever the data does. In-memory storage forgets both together.
+function createSessionStore(): session.Store {
+  if (config.storage.driver === "postgres") {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({
+      conString: config.storage.databaseUrl,
+      createTableIfMissing: true
+    });
+  }
+
+  const MemoryStoreSession = MemoryStore(session);
+  return new MemoryStoreSession({
+    checkPeriod: 86400000 // prune expired entries every 24h
+  });
+}
+
+// Shared by the Express app and the WebSocket upgrade handler so both
+// read the same cookie from the same store
+export const sessionMiddleware = session({
+  secret: "peer-evaluation-session-secret",
+  resave: false,
+  saveUninitialized: false,
+  cookie: {
+    secure: process.env.NODE_ENV === "production",
+    maxAge: 24 * 60 * 60 * 1000 // 24 hours
+  },
+  store: createSessionStore()
+});
+
+// Resolve the session for a raw HTTP request, such as a WebSocket upgrade,
+// that never passes through the Express middleware chain
+export function loadSession(req: IncomingMessage): Promise<Request["session"] | undefined> {
+  return new Promise((resolve, reject) => {
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, (err?: unknown) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(request.session);
+      }
+    });
+  });
+}
@@ -1,23 +1,61 @@
 import { 
   users, 
   teams, 
+  rubrics,
+  rooms,
   presentationSessions, 
   evaluations, 
   aiFeedback, 
+  aiFeedbackVersions,
+  feedbackJobs,
+  sessionRecordings,
   peers,
+  rosterStudents,
+  settings,
+  DEFAULT_EVENT_SETTINGS,
   type User, 
   type InsertUser, 
   type Team, 
   type InsertTeam,
+  type Rubric,
+  type InsertRubric,
+  type Room,
+  type InsertRoom,
   type PresentationSession,
   type InsertPresentationSession,
+  type SessionEvent,
   type Evaluation,
   type InsertEvaluation,
   type AIFeedback,
   type InsertAIFeedback,
+  type AIFeedbackVersion,
+  type InsertAIFeedbackVersion,
+  type FeedbackJob,
+  type InsertFeedbackJob,
+  type SessionRecording,
+  type InsertSessionRecording,
   type Peer,
-  type InsertPeer
+  type InsertPeer,
+  type RosterStudent,
+  type InsertRosterStudent,
+  type EventSettings
 } from "@shared/schema";
+import { and, asc, count, desc, eq, gte, inArray, lte, sql, type SQL } from "drizzle-orm";
+import { config } from "./config";
+import { createDb, type Database } from "./db";
+
+// Filters for browsing past presentation sessions, newest first
+export type PresentationSessionFilter = {
+  teamId?: number;
+  // Only sessions that have been ended
+  completed?: boolean;
+  // Bounds on the session start time, both inclusive
+  from?: Date;
+  to?: Date;
+  // All matching sessions when no limit is given
+  limit?: number;
+  offset?: number;
+};
 
 export interface IStorage {
   // User methods
@@ -25,21 +63,43 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserById(id: number): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getAdminUsers(): Promise<User[]>;
+  updateUser(id: number, updates: Partial<Omit<User, "id">>): Promise<User>;
   
   // Team methods
   getTeam(id: number): Promise<Team | undefined>;
   getAllTeams(): Promise<Team[]>;
   createTeam(team: InsertTeam): Promise<Team>;
   
+  // Rubric methods
+  getRubric(id: number): Promise<Rubric | undefined>;
+  getAllRubrics(): Promise<Rubric[]>;
+  getDefaultRubric(): Promise<Rubric | undefined>;
+  createRubric(rubric: InsertRubric): Promise<Rubric>;
+  updateRubric(id: number, updates: Partial<InsertRubric>): Promise<Rubric>;
+  isRubricInUse(id: number): Promise<boolean>;
+  
+  // Room methods
+  getRoom(id: number): Promise<Room | undefined>;
+  getRoomByCode(code: string): Promise<Room | undefined>;
+  getAllRooms(): Promise<Room[]>;
+  createRoom(room: InsertRoom): Promise<Room>;
+  
   // Presentation session methods
   getPresentationSession(id: number): Promise<PresentationSession | undefined>;
-  getActivePresentationSession(): Promise<PresentationSession | undefined>;
+  getActivePresentationSession(roomId: number): Promise<PresentationSession | undefined>;
+  getActivePresentationSessions(): Promise<PresentationSession[]>;
+  getPresentationSessions(filter: PresentationSessionFilter): Promise<{ sessions: PresentationSession[]; total: number }>;
   createPresentationSession(session: InsertPresentationSession): Promise<PresentationSession>;
   updatePresentationSession(id: number, updates: Partial<PresentationSession>): Promise<PresentationSession>;
+  // Adds to the end of the session's events without rewriting earlier ones
+  appendSessionEvent(id: number, event: SessionEvent): Promise<PresentationSession>;
   
   // Evaluation methods
   getEvaluation(id: number): Promise<Evaluation | undefined>;
+  // Peer evaluations only; self-assessments are kept apart
   getEvaluationsBySessionId(sessionId: number): Promise<Evaluation[]>;
+  getSelfAssessmentsBySessionId(sessionId: number): Promise<Evaluation[]>;
   getEvaluationBySessionAndPeer(sessionId: number, peerId: number): Promise<Evaluation | undefined>;
   createEvaluation(evaluation: InsertEvaluation): Promise<Evaluation>;
   
@@ -47,50 +107,103 @@ export interface IStorage {
   getAIFeedback(id: number): Promise<AIFeedback | undefined>;
   getAIFeedbackBySessionId(sessionId: number): Promise<AIFeedback | undefined>;
   createAIFeedback(feedback: InsertAIFeedback): Promise<AIFeedback>;
+  updateAIFeedback(id: number, updates: Partial<Omit<AIFeedback, "id" | "sessionId">>): Promise<AIFeedback>;
+  // Newest first
+  getAIFeedbackVersions(sessionId: number): Promise<AIFeedbackVersion[]>;
+  getAIFeedbackVersion(sessionId: number, version: number): Promise<AIFeedbackVersion | undefined>;
+  createAIFeedbackVersion(version: InsertAIFeedbackVersion): Promise<AIFeedbackVersion>;
+  
+  // Feedback job methods
+  getFeedbackJob(id: number): Promise<FeedbackJob | undefined>;
+  // Newest first
+  getFeedbackJobsBySessionId(sessionId: number): Promise<FeedbackJob[]>;
+  createFeedbackJob(job: InsertFeedbackJob): Promise<FeedbackJob>;
+  updateFeedbackJob(id: number, updates: Partial<Omit<FeedbackJob, "id">>): Promise<FeedbackJob>;
+  // Marks the queued job due first as running and counts the attempt. Safe to
+  // call from several workers at once: each job is handed out only once.
+  claimNextFeedbackJob(now: Date): Promise<FeedbackJob | undefined>;
+  // Puts jobs left running by a stopped server back in the queue
+  requeueRunningFeedbackJobs(now: Date): Promise<number>;
+  
+  // Session recording methods
+  getSessionRecording(id: number): Promise<SessionRecording | undefined>;
+  // Oldest first
+  getSessionRecordingsBySessionId(sessionId: number): Promise<SessionRecording[]>;
+  createSessionRecording(recording: InsertSessionRecording): Promise<SessionRecording>;
+  updateSessionRecording(id: number, updates: Partial<Omit<SessionRecording, "id" | "sessionId">>): Promise<SessionRecording>;
   
   // Peer methods
   getPeer(id: number): Promise<Peer | undefined>;
   getPeerByUSN(usn: string): Promise<Peer | undefined>;
   getPeerByUserId(userId: number): Promise<Peer | undefined>;
   createPeer(peer: InsertPeer): Promise<Peer>;
+  
+  // Roster methods
+  getRosterStudentByUSN(usn: string): Promise<RosterStudent | undefined>;
+  getAllRosterStudents(): Promise<RosterStudent[]>;
+  upsertRosterStudents(students: InsertRosterStudent[]): Promise<RosterStudent[]>;
+  deleteRosterStudent(id: number): Promise<boolean>;
+  
+  // Settings methods
+  getEventSettings(): Promise<EventSettings>;
+  updateEventSettings(updates: Partial<EventSettings>): Promise<EventSettings>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private teams: Map<number, Team>;
+  private rubrics: Map<number, Rubric>;
+  private rooms: Map<number, Room>;
   private presentationSessions: Map<number, PresentationSession>;
   private evaluations: Map<number, Evaluation>;
   private aiFeedback: Map<number, AIFeedback>;
+  private aiFeedbackVersions: Map<number, AIFeedbackVersion>;
+  private feedbackJobs: Map<number, FeedbackJob>;
+  private sessionRecordings: Map<number, SessionRecording>;
   private peers: Map<number, Peer>;
+  private rosterStudents: Map<number, RosterStudent>;
+  private eventSettings: EventSettings;
   
   private currentUserId: number;
   private currentTeamId: number;
+  private currentRubricId: number;
+  private currentRoomId: number;
   private currentSessionId: number;
   private currentEvaluationId: number;
   private currentFeedbackId: number;
+  private currentFeedbackVersionId: number;
+  private currentFeedbackJobId: number;
+  private currentRecordingId: number;
   private currentPeerId: number;
+  private currentRosterStudentId: number;
 
   constructor() {
     this.users = new Map();
     this.teams = new Map();
+    this.rubrics = new Map();
+    this.rooms = new Map();
     this.presentationSessions = new Map();
     this.evaluations = new Map();
     this.aiFeedback = new Map();
+    this.aiFeedbackVersions = new Map();
+    this.feedbackJobs = new Map();
+    this.sessionRecordings = new Map();
     this.peers = new Map();
+    this.rosterStudents = new Map();
+    this.eventSettings = { ...DEFAULT_EVENT_SETTINGS };
     
     this.currentUserId = 1;
     this.currentTeamId = 1;
+    this.currentRubricId = 1;
+    this.currentRoomId = 1;
     this.currentSessionId = 1;
     this.currentEvaluationId = 1;
     this.currentFeedbackId = 1;
+    this.currentFeedbackVersionId = 1;
+    this.currentFeedbackJobId = 1;
+    this.currentRecordingId = 1;
     this.currentPeerId = 1;
-    
-    // Create default admin user
-    this.createUser({
-      username: "admin",
-      password: "admin",
-      isAdmin: true
-    });
+    this.currentRosterStudentId = 1;
   }
 
   // User methods
@@ -110,11 +223,28 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, isDisabled: false };
     this.users.set(id, user);
     return user;
   }
   
+  async getAdminUsers(): Promise<User[]> {
+    return Array.from(this.users.values()).filter(
+      (user) => user.isAdmin,
+    );
+  }
+  
+  async updateUser(id: number, updates: Partial<Omit<User, "id">>): Promise<User> {
+    const user = this.users.get(id);
+    if (!user) {
+      throw new Error(`User with ID ${id} not found`);
+    }
+    
+    const updatedUser = { ...user, ...updates };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+  
   // Team methods
   async getTeam(id: number): Promise<Team | undefined> {
     return this.teams.get(id);
@@ -131,20 +261,125 @@ export class MemStorage implements IStorage {
     return team;
   }
   
+  // Rubric methods
+  async getRubric(id: number): Promise<Rubric | undefined> {
+    return this.rubrics.get(id);
+  }
+  
+  async getAllRubrics(): Promise<Rubric[]> {
+    return Array.from(this.rubrics.values());
+  }
+  
+  async getDefaultRubric(): Promise<Rubric | undefined> {
+    return Array.from(this.rubrics.values()).find(
+      (rubric) => rubric.isDefault,
+    );
+  }
+  
+  async createRubric(insertRubric: InsertRubric): Promise<Rubric> {
+    if (insertRubric.isDefault) {
+      this.clearDefaultRubric();
+    }
+    
+    const id = this.currentRubricId++;
+    const rubric: Rubric = {
+      ...insertRubric,
+      id,
+      criteria: insertRubric.criteria as Rubric["criteria"],
+      isDefault: insertRubric.isDefault ?? false
+    };
+    this.rubrics.set(id, rubric);
+    return rubric;
+  }
+  
+  async updateRubric(id: number, updates: Partial<InsertRubric>): Promise<Rubric> {
+    const rubric = this.rubrics.get(id);
+    if (!rubric) {
+      throw new Error(`Rubric with ID ${id} not found`);
+    }
+    
+    if (updates.isDefault) {
+      this.clearDefaultRubric();
+    }
+    
+    const updatedRubric = { ...rubric, ...updates } as Rubric;
+    this.rubrics.set(id, updatedRubric);
+    return updatedRubric;
+  }
+  
+  async isRubricInUse(id: number): Promise<boolean> {
+    return Array.from(this.presentationSessions.values()).some(
+      (session) => session.rubricId === id,
+    );
+  }
+  
+  private clearDefaultRubric() {
+    this.rubrics.forEach((rubric, rubricId) => {
+      if (rubric.isDefault) {
+        this.rubrics.set(rubricId, { ...rubric, isDefault: false });
+      }
+    });
+  }
+  
+  // Room methods
+  async getRoom(id: number): Promise<Room | undefined> {
+    return this.rooms.get(id);
+  }
+  
+  async getRoomByCode(code: string): Promise<Room | undefined> {
+    return Array.from(this.rooms.values()).find(
+      (room) => room.code === code,
+    );
+  }
+  
+  async getAllRooms(): Promise<Room[]> {
+    return Array.from(this.rooms.values());
+  }
+  
+  async createRoom(insertRoom: InsertRoom): Promise<Room> {
+    const id = this.currentRoomId++;
+    const room: Room = { ...insertRoom, id };
+    this.rooms.set(id, room);
+    return room;
+  }
+  
   // Presentation session methods
   async getPresentationSession(id: number): Promise<PresentationSession | undefined> {
     return this.presentationSessions.get(id);
   }
   
-  async getActivePresentationSession(): Promise<PresentationSession | undefined> {
+  async getActivePresentationSession(roomId: number): Promise<PresentationSession | undefined> {
     return Array.from(this.presentationSessions.values()).find(
+      (session) => session.isActive && session.roomId === roomId,
+    );
+  }
+  
+  async getActivePresentationSessions(): Promise<PresentationSession[]> {
+    return Array.from(this.presentationSessions.values()).filter(
       (session) => session.isActive,
     );
   }
   
+  async getPresentationSessions(filter: PresentationSessionFilter): Promise<{ sessions: PresentationSession[]; total: number }> {
+    const matching = Array.from(this.presentationSessions.values())
+      .filter((session) =>
+        (filter.teamId === undefined || session.teamId === filter.teamId) &&
+        (!filter.completed || !session.isActive) &&
+        (!filter.from || session.startTime >= filter.from) &&
+        (!filter.to || session.startTime <= filter.to)
+      )
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime() || b.id - a.id);
+    
+    const offset = filter.offset ?? 0;
+    return {
+      sessions: matching.slice(offset, filter.limit === undefined ? undefined : offset + filter.limit),
+      total: matching.length
+    };
+  }
+  
   async createPresentationSession(insertSession: InsertPresentationSession): Promise<PresentationSession> {
-    // End any active sessions first
-    const activeSession = await this.getActivePresentationSession();
+    // End any active session in the same room first
+    const activeSession = await this.getActivePresentationSession(insertSession.roomId);
     if (activeSession) {
       await this.updatePresentationSession(activeSession.id, {
         isActive: false,
@@ -156,7 +391,10 @@ export class MemStorage implements IStorage {
     const session: PresentationSession = { 
       ...insertSession, 
       id,
-      endTime: null
+      endTime: null,
+      timerSeconds: 0,
+      timerStartedAt: null,
+      events: []
     };
     this.presentationSessions.set(id, session);
     return session;
@@ -173,6 +411,15 @@ export class MemStorage implements IStorage {
     return updatedSession;
   }
   
+  async appendSessionEvent(id: number, event: SessionEvent): Promise<PresentationSession> {
+    const session = this.presentationSessions.get(id);
+    if (!session) {
+      throw new Error(`Presentation session with ID ${id} not found`);
+    }
+    
+    return this.updatePresentationSession(id, { events: [...session.events, event] });
+  }
+  
   // Evaluation methods
   async getEvaluation(id: number): Promise<Evaluation | undefined> {
     return this.evaluations.get(id);
@@ -180,7 +427,13 @@ export class MemStorage implements IStorage {
   
   async getEvaluationsBySessionId(sessionId: number): Promise<Evaluation[]> {
     return Array.from(this.evaluations.values()).filter(
-      (evaluation) => evaluation.sessionId === sessionId,
+      (evaluation) => evaluation.sessionId === sessionId && !evaluation.isSelfAssessment,
+    );
+  }
+  
+  async getSelfAssessmentsBySessionId(sessionId: number): Promise<Evaluation[]> {
+    return Array.from(this.evaluations.values()).filter(
+      (evaluation) => evaluation.sessionId === sessionId && evaluation.isSelfAssessment,
     );
   }
   
@@ -192,7 +445,11 @@ export class MemStorage implements IStorage {
   
   async createEvaluation(insertEvaluation: InsertEvaluation): Promise<Evaluation> {
     const id = this.currentEvaluationId++;
-    const evaluation: Evaluation = { ...insertEvaluation, id };
+    const evaluation: Evaluation = {
+      ...insertEvaluation,
+      id,
+      isSelfAssessment: insertEvaluation.isSelfAssessment ?? false
+    };
     this.evaluations.set(id, evaluation);
     return evaluation;
   }
@@ -210,11 +467,149 @@ export class MemStorage implements IStorage {
   
   async createAIFeedback(insertFeedback: InsertAIFeedback): Promise<AIFeedback> {
     const id = this.currentFeedbackId++;
-    const feedback: AIFeedback = { ...insertFeedback, id };
+    const feedback: AIFeedback = {
+      ...insertFeedback,
+      id,
+      version: insertFeedback.version ?? 1,
+      editedBy: insertFeedback.editedBy ?? null,
+      publishedVersion: null,
+      publishedAt: null,
+      publishedBy: null
+    };
     this.aiFeedback.set(id, feedback);
     return feedback;
   }
   
+  async updateAIFeedback(id: number, updates: Partial<Omit<AIFeedback, "id" | "sessionId">>): Promise<AIFeedback> {
+    const feedback = this.aiFeedback.get(id);
+    if (!feedback) {
+      throw new Error(`AI feedback with ID ${id} not found`);
+    }
+    
+    const updatedFeedback = { ...feedback, ...updates };
+    this.aiFeedback.set(id, updatedFeedback);
+    return updatedFeedback;
+  }
+  
+  async getAIFeedbackVersions(sessionId: number): Promise<AIFeedbackVersion[]> {
+    return Array.from(this.aiFeedbackVersions.values())
+      .filter((version) => version.sessionId === sessionId)
+      .sort((a, b) => b.version - a.version);
+  }
+  
+  async getAIFeedbackVersion(sessionId: number, version: number): Promise<AIFeedbackVersion | undefined> {
+    return Array.from(this.aiFeedbackVersions.values()).find(
+      (entry) => entry.sessionId === sessionId && entry.version === version,
+    );
+  }
+  
+  async createAIFeedbackVersion(insertVersion: InsertAIFeedbackVersion): Promise<AIFeedbackVersion> {
+    const id = this.currentFeedbackVersionId++;
+    const version: AIFeedbackVersion = {
+      ...insertVersion,
+      id,
+      strengths: insertVersion.strengths as string[],
+      improvements: insertVersion.improvements as string[],
+      authorId: insertVersion.authorId ?? null
+    };
+    this.aiFeedbackVersions.set(id, version);
+    return version;
+  }
+  
+  // Feedback job methods
+  async getFeedbackJob(id: number): Promise<FeedbackJob | undefined> {
+    return this.feedbackJobs.get(id);
+  }
+  
+  async getFeedbackJobsBySessionId(sessionId: number): Promise<FeedbackJob[]> {
+    return Array.from(this.feedbackJobs.values())
+      .filter((job) => job.sessionId === sessionId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async createFeedbackJob(insertJob: InsertFeedbackJob): Promise<FeedbackJob> {
+    const id = this.currentFeedbackJobId++;
+    const job: FeedbackJob = {
+      ...insertJob,
+      id,
+      attempts: 0,
+      lastError: null,
+      requestedBy: insertJob.requestedBy ?? null
+    };
+    this.feedbackJobs.set(id, job);
+    return job;
+  }
+  
+  async updateFeedbackJob(id: number, updates: Partial<Omit<FeedbackJob, "id">>): Promise<FeedbackJob> {
+    const job = this.feedbackJobs.get(id);
+    if (!job) {
+      throw new Error(`Feedback job with ID ${id} not found`);
+    }
+    
+    const updatedJob = { ...job, ...updates };
+    this.feedbackJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+  
+  async claimNextFeedbackJob(now: Date): Promise<FeedbackJob | undefined> {
+    const [next] = Array.from(this.feedbackJobs.values())
+      .filter((job) => job.status === "queued" && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id);
+    if (!next) return undefined;
+    
+    return this.updateFeedbackJob(next.id, {
+      status: "running",
+      attempts: next.attempts + 1,
+      updatedAt: now
+    });
+  }
+  
+  async requeueRunningFeedbackJobs(now: Date): Promise<number> {
+    const running = Array.from(this.feedbackJobs.values()).filter((job) => job.status === "running");
+    for (const job of running) {
+      await this.updateFeedbackJob(job.id, { status: "queued", runAt: now, updatedAt: now });
+    }
+    return running.length;
+  }
+  
+  // Session recording methods
+  async getSessionRecording(id: number): Promise<SessionRecording | undefined> {
+    return this.sessionRecordings.get(id);
+  }
+  
+  async getSessionRecordingsBySessionId(sessionId: number): Promise<SessionRecording[]> {
+    return Array.from(this.sessionRecordings.values())
+      .filter((recording) => recording.sessionId === sessionId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createSessionRecording(insertRecording: InsertSessionRecording): Promise<SessionRecording> {
+    const id = this.currentRecordingId++;
+    const recording: SessionRecording = {
+      ...insertRecording,
+      id,
+      chunkCount: 0,
+      sizeBytes: 0,
+      endedAt: null
+    };
+    this.sessionRecordings.set(id, recording);
+    return recording;
+  }
+  
+  async updateSessionRecording(
+    id: number,
+    updates: Partial<Omit<SessionRecording, "id" | "sessionId">>
+  ): Promise<SessionRecording> {
+    const recording = this.sessionRecordings.get(id);
+    if (!recording) {
+      throw new Error(`Recording with ID ${id} not found`);
+    }
+    
+    const updatedRecording = { ...recording, ...updates };
+    this.sessionRecordings.set(id, updatedRecording);
+    return updatedRecording;
+  }
+  
   // Peer methods
   async getPeer(id: number): Promise<Peer | undefined> {
     return this.peers.get(id);
@@ -238,6 +633,562 @@ export class MemStorage implements IStorage {
     this.peers.set(id, peer);
     return peer;
   }
+  
+  // Roster methods
+  async getRosterStudentByUSN(usn: string): Promise<RosterStudent | undefined> {
+    return Array.from(this.rosterStudents.values()).find(
+      (student) => student.usn === usn,
+    );
+  }
+  
+  async getAllRosterStudents(): Promise<RosterStudent[]> {
+    return Array.from(this.rosterStudents.values());
+  }
+  
+  async upsertRosterStudents(students: InsertRosterStudent[]): Promise<RosterStudent[]> {
+    const saved: RosterStudent[] = [];
+    
+    for (const student of students) {
+      const existing = await this.getRosterStudentByUSN(student.usn);
+      const rosterStudent: RosterStudent = existing
+        ? { ...existing, name: student.name }
+        : { ...student, id: this.currentRosterStudentId++ };
+      
+      this.rosterStudents.set(rosterStudent.id, rosterStudent);
+      saved.push(rosterStudent);
+    }
+    
+    return saved;
+  }
+  
+  async deleteRosterStudent(id: number): Promise<boolean> {
+    return this.rosterStudents.delete(id);
+  }
+  
+  // Settings methods
+  async getEventSettings(): Promise<EventSettings> {
+    return { ...this.eventSettings };
+  }
+  
+  async updateEventSettings(updates: Partial<EventSettings>): Promise<EventSettings> {
+    this.eventSettings = { ...this.eventSettings, ...updates };
+    return { ...this.eventSettings };
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserById(id: number): Promise<User | undefined> {
+    return this.getUser(id);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getAdminUsers(): Promise<User[]> {
+    return this.db.select().from(users).where(eq(users.isAdmin, true)).orderBy(users.id);
+  }
+
+  async updateUser(id: number, updates: Partial<Omit<User, "id">>): Promise<User> {
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
+
+    if (!user) {
+      throw new Error(`User with ID ${id} not found`);
+    }
+
+    return user;
+  }
+
+  // Team methods
+  async getTeam(id: number): Promise<Team | undefined> {
+    const [team] = await this.db.select().from(teams).where(eq(teams.id, id));
+    return team;
+  }
+
+  async getAllTeams(): Promise<Team[]> {
+    return this.db.select().from(teams).orderBy(teams.id);
+  }
+
+  async createTeam(insertTeam: InsertTeam): Promise<Team> {
+    const [team] = await this.db
+      .insert(teams)
+      .values({ ...insertTeam, members: insertTeam.members as Team["members"] })
+      .returning();
+    return team;
+  }
+
+  // Rubric methods
+  async getRubric(id: number): Promise<Rubric | undefined> {
+    const [rubric] = await this.db.select().from(rubrics).where(eq(rubrics.id, id));
+    return rubric;
+  }
+
+  async getAllRubrics(): Promise<Rubric[]> {
+    return this.db.select().from(rubrics).orderBy(rubrics.id);
+  }
+
+  async getDefaultRubric(): Promise<Rubric | undefined> {
+    const [rubric] = await this.db.select().from(rubrics).where(eq(rubrics.isDefault, true));
+    return rubric;
+  }
+
+  async createRubric(insertRubric: InsertRubric): Promise<Rubric> {
+    return this.db.transaction(async (tx) => {
+      if (insertRubric.isDefault) {
+        await tx.update(rubrics).set({ isDefault: false }).where(eq(rubrics.isDefault, true));
+      }
+
+      const [rubric] = await tx
+        .insert(rubrics)
+        .values({ ...insertRubric, criteria: insertRubric.criteria as Rubric["criteria"] })
+        .returning();
+      return rubric;
+    });
+  }
+
+  async updateRubric(id: number, updates: Partial<InsertRubric>): Promise<Rubric> {
+    return this.db.transaction(async (tx) => {
+      if (updates.isDefault) {
+        await tx.update(rubrics).set({ isDefault: false }).where(eq(rubrics.isDefault, true));
+      }
+
+      const [rubric] = await tx
+        .update(rubrics)
+        .set(updates as Partial<Rubric>)
+        .where(eq(rubrics.id, id))
+        .returning();
+
+      if (!rubric) {
+        throw new Error(`Rubric with ID ${id} not found`);
+      }
+
+      return rubric;
+    });
+  }
+
+  async isRubricInUse(id: number): Promise<boolean> {
+    const [session] = await this.db
+      .select({ id: presentationSessions.id })
+      .from(presentationSessions)
+      .where(eq(presentationSessions.rubricId, id))
+      .limit(1);
+    return session !== undefined;
+  }
+
+  // Room methods
+  async getRoom(id: number): Promise<Room | undefined> {
+    const [room] = await this.db.select().from(rooms).where(eq(rooms.id, id));
+    return room;
+  }
+
+  async getRoomByCode(code: string): Promise<Room | undefined> {
+    const [room] = await this.db.select().from(rooms).where(eq(rooms.code, code));
+    return room;
+  }
+
+  async getAllRooms(): Promise<Room[]> {
+    return this.db.select().from(rooms).orderBy(rooms.id);
+  }
+
+  async createRoom(insertRoom: InsertRoom): Promise<Room> {
+    const [room] = await this.db.insert(rooms).values(insertRoom).returning();
+    return room;
+  }
+
+  // Presentation session methods
+  async getPresentationSession(id: number): Promise<PresentationSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(presentationSessions)
+      .where(eq(presentationSessions.id, id));
+    return session;
+  }
+
+  async getActivePresentationSession(roomId: number): Promise<PresentationSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(presentationSessions)
+      .where(and(
+        eq(presentationSessions.roomId, roomId),
+        eq(presentationSessions.isActive, true),
+      ));
+    return session;
+  }
+
+  async getActivePresentationSessions(): Promise<PresentationSession[]> {
+    return this.db
+      .select()
+      .from(presentationSessions)
+      .where(eq(presentationSessions.isActive, true));
+  }
+
+  async getPresentationSessions(filter: PresentationSessionFilter): Promise<{ sessions: PresentationSession[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filter.teamId !== undefined) conditions.push(eq(presentationSessions.teamId, filter.teamId));
+    if (filter.completed) conditions.push(eq(presentationSessions.isActive, false));
+    if (filter.from) conditions.push(gte(presentationSessions.startTime, filter.from));
+    if (filter.to) conditions.push(lte(presentationSessions.startTime, filter.to));
+    const where = and(...conditions);
+
+    let query = this.db
+      .select()
+      .from(presentationSessions)
+      .where(where)
+      .orderBy(desc(presentationSessions.startTime), desc(presentationSessions.id))
+      .$dynamic();
+    if (filter.limit !== undefined) {
+      query = query.limit(filter.limit).offset(filter.offset ?? 0);
+    }
+    const sessions = await query;
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(presentationSessions)
+      .where(where);
+
+    return { sessions, total };
+  }
+
+  async createPresentationSession(insertSession: InsertPresentationSession): Promise<PresentationSession> {
+    return this.db.transaction(async (tx) => {
+      // End any active session in the same room first
+      await tx
+        .update(presentationSessions)
+        .set({ isActive: false, endTime: new Date() })
+        .where(and(
+          eq(presentationSessions.roomId, insertSession.roomId),
+          eq(presentationSessions.isActive, true),
+        ));
+
+      const [session] = await tx
+        .insert(presentationSessions)
+        .values(insertSession)
+        .returning();
+      return session;
+    });
+  }
+
+  async updatePresentationSession(id: number, updates: Partial<PresentationSession>): Promise<PresentationSession> {
+    const { id: _id, ...values } = updates;
+    const [session] = await this.db
+      .update(presentationSessions)
+      .set(values)
+      .where(eq(presentationSessions.id, id))
+      .returning();
+
+    if (!session) {
+      throw new Error(`Presentation session with ID ${id} not found`);
+    }
+
+    return session;
+  }
+
+  async appendSessionEvent(id: number, event: SessionEvent): Promise<PresentationSession> {
+    const [session] = await this.db
+      .update(presentationSessions)
+      .set({ events: sql`${presentationSessions.events} || ${JSON.stringify([event])}::jsonb` })
+      .where(eq(presentationSessions.id, id))
+      .returning();
+
+    if (!session) {
+      throw new Error(`Presentation session with ID ${id} not found`);
+    }
+
+    return session;
+  }
+
+  // Evaluation methods
+  async getEvaluation(id: number): Promise<Evaluation | undefined> {
+    const [evaluation] = await this.db.select().from(evaluations).where(eq(evaluations.id, id));
+    return evaluation;
+  }
+
+  async getEvaluationsBySessionId(sessionId: number): Promise<Evaluation[]> {
+    return this.db
+      .select()
+      .from(evaluations)
+      .where(and(eq(evaluations.sessionId, sessionId), eq(evaluations.isSelfAssessment, false)))
+      .orderBy(evaluations.id);
+  }
+
+  async getSelfAssessmentsBySessionId(sessionId: number): Promise<Evaluation[]> {
+    return this.db
+      .select()
+      .from(evaluations)
+      .where(and(eq(evaluations.sessionId, sessionId), eq(evaluations.isSelfAssessment, true)))
+      .orderBy(evaluations.id);
+  }
+
+  async getEvaluationBySessionAndPeer(sessionId: number, peerId: number): Promise<Evaluation | undefined> {
+    const [evaluation] = await this.db
+      .select()
+      .from(evaluations)
+      .where(and(eq(evaluations.sessionId, sessionId), eq(evaluations.peerId, peerId)));
+    return evaluation;
+  }
+
+  async createEvaluation(insertEvaluation: InsertEvaluation): Promise<Evaluation> {
+    const [evaluation] = await this.db.insert(evaluations).values(insertEvaluation).returning();
+    return evaluation;
+  }
+
+  // AI Feedback methods
+  async getAIFeedback(id: number): Promise<AIFeedback | undefined> {
+    const [feedback] = await this.db.select().from(aiFeedback).where(eq(aiFeedback.id, id));
+    return feedback;
+  }
+
+  async getAIFeedbackBySessionId(sessionId: number): Promise<AIFeedback | undefined> {
+    const [feedback] = await this.db
+      .select()
+      .from(aiFeedback)
+      .where(eq(aiFeedback.sessionId, sessionId));
+    return feedback;
+  }
+
+  async createAIFeedback(insertFeedback: InsertAIFeedback): Promise<AIFeedback> {
+    const [feedback] = await this.db
+      .insert(aiFeedback)
+      .values({
+        ...insertFeedback,
+        strengths: insertFeedback.strengths as string[],
+        improvements: insertFeedback.improvements as string[],
+      })
+      .returning();
+    return feedback;
+  }
+
+  async updateAIFeedback(id: number, updates: Partial<Omit<AIFeedback, "id" | "sessionId">>): Promise<AIFeedback> {
+    const [feedback] = await this.db
+      .update(aiFeedback)
+      .set(updates)
+      .where(eq(aiFeedback.id, id))
+      .returning();
+
+    if (!feedback) {
+      throw new Error(`AI feedback with ID ${id} not found`);
+    }
+
+    return feedback;
+  }
+
+  async getAIFeedbackVersions(sessionId: number): Promise<AIFeedbackVersion[]> {
+    return this.db
+      .select()
+      .from(aiFeedbackVersions)
+      .where(eq(aiFeedbackVersions.sessionId, sessionId))
+      .orderBy(desc(aiFeedbackVersions.version));
+  }
+
+  async getAIFeedbackVersion(sessionId: number, version: number): Promise<AIFeedbackVersion | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(aiFeedbackVersions)
+      .where(and(eq(aiFeedbackVersions.sessionId, sessionId), eq(aiFeedbackVersions.version, version)));
+    return entry;
+  }
+
+  async createAIFeedbackVersion(insertVersion: InsertAIFeedbackVersion): Promise<AIFeedbackVersion> {
+    const [version] = await this.db
+      .insert(aiFeedbackVersions)
+      .values({
+        ...insertVersion,
+        strengths: insertVersion.strengths as string[],
+        improvements: insertVersion.improvements as string[],
+      })
+      .returning();
+    return version;
+  }
+
+  // Feedback job methods
+  async getFeedbackJob(id: number): Promise<FeedbackJob | undefined> {
+    const [job] = await this.db.select().from(feedbackJobs).where(eq(feedbackJobs.id, id));
+    return job;
+  }
+
+  async getFeedbackJobsBySessionId(sessionId: number): Promise<FeedbackJob[]> {
+    return this.db
+      .select()
+      .from(feedbackJobs)
+      .where(eq(feedbackJobs.sessionId, sessionId))
+      .orderBy(desc(feedbackJobs.id));
+  }
+
+  async createFeedbackJob(insertJob: InsertFeedbackJob): Promise<FeedbackJob> {
+    const [job] = await this.db.insert(feedbackJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateFeedbackJob(id: number, updates: Partial<Omit<FeedbackJob, "id">>): Promise<FeedbackJob> {
+    const [job] = await this.db
+      .update(feedbackJobs)
+      .set(updates)
+      .where(eq(feedbackJobs.id, id))
+      .returning();
+
+    if (!job) {
+      throw new Error(`Feedback job with ID ${id} not found`);
+    }
+
+    return job;
+  }
+
+  async claimNextFeedbackJob(now: Date): Promise<FeedbackJob | undefined> {
+    // SKIP LOCKED lets workers in other processes claim different jobs
+    // instead of queueing up behind the same row
+    const next = this.db
+      .select({ id: feedbackJobs.id })
+      .from(feedbackJobs)
+      .where(and(eq(feedbackJobs.status, "queued"), lte(feedbackJobs.runAt, now)))
+      .orderBy(asc(feedbackJobs.runAt), asc(feedbackJobs.id))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [job] = await this.db
+      .update(feedbackJobs)
+      .set({ status: "running", attempts: sql`${feedbackJobs.attempts} + 1`, updatedAt: now })
+      .where(inArray(feedbackJobs.id, next))
+      .returning();
+    return job;
+  }
+
+  async requeueRunningFeedbackJobs(now: Date): Promise<number> {
+    const requeued = await this.db
+      .update(feedbackJobs)
+      .set({ status: "queued", runAt: now, updatedAt: now })
+      .where(eq(feedbackJobs.status, "running"))
+      .returning({ id: feedbackJobs.id });
+    return requeued.length;
+  }
+
+  // Session recording methods
+  async getSessionRecording(id: number): Promise<SessionRecording | undefined> {
+    const [recording] = await this.db.select().from(sessionRecordings).where(eq(sessionRecordings.id, id));
+    return recording;
+  }
+
+  async getSessionRecordingsBySessionId(sessionId: number): Promise<SessionRecording[]> {
+    return this.db
+      .select()
+      .from(sessionRecordings)
+      .where(eq(sessionRecordings.sessionId, sessionId))
+      .orderBy(asc(sessionRecordings.id));
+  }
+
+  async createSessionRecording(insertRecording: InsertSessionRecording): Promise<SessionRecording> {
+    const [recording] = await this.db.insert(sessionRecordings).values(insertRecording).returning();
+    return recording;
+  }
+
+  async updateSessionRecording(
+    id: number,
+    updates: Partial<Omit<SessionRecording, "id" | "sessionId">>
+  ): Promise<SessionRecording> {
+    const [recording] = await this.db
+      .update(sessionRecordings)
+      .set(updates)
+      .where(eq(sessionRecordings.id, id))
+      .returning();
+
+    if (!recording) {
+      throw new Error(`Recording with ID ${id} not found`);
+    }
+
+    return recording;
+  }
+
+  // Peer methods
+  async getPeer(id: number): Promise<Peer | undefined> {
+    const [peer] = await this.db.select().from(peers).where(eq(peers.id, id));
+    return peer;
+  }
+
+  async getPeerByUSN(usn: string): Promise<Peer | undefined> {
+    const [peer] = await this.db.select().from(peers).where(eq(peers.usn, usn));
+    return peer;
+  }
+
+  async getPeerByUserId(userId: number): Promise<Peer | undefined> {
+    const [peer] = await this.db.select().from(peers).where(eq(peers.userId, userId));
+    return peer;
+  }
+
+  async createPeer(insertPeer: InsertPeer): Promise<Peer> {
+    const [peer] = await this.db.insert(peers).values(insertPeer).returning();
+    return peer;
+  }
+
+  // Roster methods
+  async getRosterStudentByUSN(usn: string): Promise<RosterStudent | undefined> {
+    const [student] = await this.db.select().from(rosterStudents).where(eq(rosterStudents.usn, usn));
+    return student;
+  }
+
+  async getAllRosterStudents(): Promise<RosterStudent[]> {
+    return this.db.select().from(rosterStudents).orderBy(rosterStudents.usn);
+  }
+
+  async upsertRosterStudents(students: InsertRosterStudent[]): Promise<RosterStudent[]> {
+    if (students.length === 0) return [];
+
+    return this.db
+      .insert(rosterStudents)
+      .values(students)
+      .onConflictDoUpdate({
+        target: rosterStudents.usn,
+        set: { name: sql`excluded.name` },
+      })
+      .returning();
+  }
+
+  async deleteRosterStudent(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(rosterStudents).where(eq(rosterStudents.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  // Settings methods
+  async getEventSettings(): Promise<EventSettings> {
+    const rows = await this.db.select().from(settings);
+    const stored = Object.fromEntries(rows.map((row) => [row.key, row.value]));
+    return { ...DEFAULT_EVENT_SETTINGS, ...stored };
+  }
+
+  async updateEventSettings(updates: Partial<EventSettings>): Promise<EventSettings> {
+    const entries = Object.entries(updates).filter(([, value]) => value !== undefined);
+
+    for (const [key, value] of entries) {
+      await this.db
+        .insert(settings)
+        .values({ key, value })
+        .onConflictDoUpdate({ target: settings.key, set: { value } });
+    }
+
+    return this.getEventSettings();
+  }
+}
+
+function createStorage(): IStorage {
+  if (config.storage.driver === "postgres") {
+    if (!config.storage.databaseUrl) {
+      throw new Error("DATABASE_URL must be set to use the postgres storage driver");
+    }
+    return new DrizzleStorage(createDb(config.storage.databaseUrl));
+  }
+
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
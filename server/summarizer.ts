@@ -0,0 +1,148 @@
+import type { Evaluation } from "@shared/schema";
+
+// Most points kept per side of the summary
+const MAX_POINTS = 5;
+
+// Cosine similarity a sentence needs to a cluster before it joins it
+const CLUSTER_THRESHOLD = 0.25;
+
+const STOPWORDS = new Set([
+  "a", "about", "all", "also", "am", "an", "and", "any", "are", "as", "at", "be", "been", "but",
+  "by", "can", "could", "did", "do", "does", "for", "from", "had", "has", "have", "he", "her",
+  "his", "how", "i", "if", "in", "into", "is", "it", "its", "it's", "just", "more", "most", "much",
+  "my", "of", "on", "or", "our", "she", "should", "so", "some", "than", "that", "the", "their",
+  "them", "then", "there", "these", "they", "this", "those", "to", "too", "very", "was", "we",
+  "were", "what", "when", "which", "while", "who", "will", "with", "would", "you", "your",
+]);
+
+type Sentence = {
+  text: string;
+  evaluationIndex: number;
+  vector: Map<string, number>;
+};
+
+export type ExtractedPoint = {
+  sentence: string;
+  // Distinct evaluators who made this point
+  support: number;
+};
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|[\n;•]+/)
+    .map(part => part.replace(/^[\s\-*–]+/, "").trim())
+    .filter(part => part.length > 0);
+}
+
+// Lower-cased content words with a plural "s" stripped, so "slides" and
+// "slide" count as the same term
+function tokenize(sentence: string): string[] {
+  return (sentence.toLowerCase().match(/[a-z0-9']+/g) ?? [])
+    .filter(word => !STOPWORDS.has(word) && word.length > 1)
+    .map(word => word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word);
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((weight, term) => {
+    normA += weight * weight;
+    dot += weight * (b.get(term) ?? 0);
+  });
+  b.forEach(weight => {
+    normB += weight * weight;
+  });
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function addInto(target: Map<string, number>, vector: Map<string, number>) {
+  vector.forEach((weight, term) => target.set(term, (target.get(term) ?? 0) + weight));
+}
+
+// Presents a picked sentence as a standalone bullet
+function tidy(sentence: string): string {
+  const text = sentence.charAt(0).toUpperCase() + sentence.slice(1);
+  return /[.!?]$/.test(text) ? text : `${text}.`;
+}
+
+// Groups similar comments and returns one representative sentence per group,
+// most widely shared first. Sentences are weighted by TF-IDF so that words
+// every comment uses ("good", "presentation") count for less than the words
+// that set a point apart, and a sentence joins the group whose combined vector
+// it is most similar to. The output depends only on the input order.
+export function extractKeyPoints(comments: (string | null)[], maxPoints = MAX_POINTS): ExtractedPoint[] {
+  const parsed = comments.flatMap((comment, evaluationIndex) =>
+    splitSentences(comment ?? "").map(text => ({ text, evaluationIndex, terms: tokenize(text) }))
+  ).filter(sentence => sentence.terms.length > 0);
+
+  if (parsed.length === 0) return [];
+
+  const documentFrequency = new Map<string, number>();
+  for (const { terms } of parsed) {
+    new Set(terms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1));
+  }
+
+  const sentences: Sentence[] = parsed.map(({ text, evaluationIndex, terms }) => {
+    const vector = new Map<string, number>();
+    for (const term of terms) {
+      const idf = Math.log((parsed.length + 1) / ((documentFrequency.get(term) ?? 0) + 1)) + 1;
+      vector.set(term, (vector.get(term) ?? 0) + idf);
+    }
+    return { text, evaluationIndex, vector };
+  });
+
+  const clusters: { members: Sentence[]; centroid: Map<string, number> }[] = [];
+  for (const sentence of sentences) {
+    let best: (typeof clusters)[number] | null = null;
+    let bestSimilarity = CLUSTER_THRESHOLD;
+    for (const cluster of clusters) {
+      const similarity = cosine(sentence.vector, cluster.centroid);
+      if (similarity >= bestSimilarity) {
+        best = cluster;
+        bestSimilarity = similarity;
+      }
+    }
+
+    if (best) {
+      best.members.push(sentence);
+      addInto(best.centroid, sentence.vector);
+    } else {
+      const centroid = new Map<string, number>();
+      addInto(centroid, sentence.vector);
+      clusters.push({ members: [sentence], centroid });
+    }
+  }
+
+  return clusters
+    .map((cluster, order) => {
+      // The most central sentence speaks for the group; shorter wins a tie
+      const scored = cluster.members.map(member => ({
+        member,
+        centrality: cosine(member.vector, cluster.centroid),
+      }));
+      scored.sort((a, b) => b.centrality - a.centrality || a.member.text.length - b.member.text.length);
+
+      return {
+        sentence: tidy(scored[0].member.text),
+        support: new Set(cluster.members.map(member => member.evaluationIndex)).size,
+        size: cluster.members.length,
+        order,
+      };
+    })
+    .sort((a, b) => b.support - a.support || b.size - a.size || a.order - b.order)
+    .slice(0, maxPoints)
+    .map(({ sentence, support }) => ({ sentence, support }));
+}
+
+function formatPoint({ sentence, support }: ExtractedPoint, total: number): string {
+  return `${sentence} (${support} of ${total} evaluator${total === 1 ? "" : "s"})`;
+}
+
+export function summarizeEvaluations(evaluations: Evaluation[]): { strengths: string[]; improvements: string[] } {
+  const total = evaluations.length;
+  return {
+    strengths: extractKeyPoints(evaluations.map(e => e.positivePoints)).map(point => formatPoint(point, total)),
+    improvements: extractKeyPoints(evaluations.map(e => e.negativePoints)).map(point => formatPoint(point, total)),
+  };
+}
@@ -0,0 +1,51 @@
+import type { PublishedTeamFeedback, Team } from "@shared/schema";
+import { calculateAverages } from "@shared/scoring";
+import { storage } from "./storage";
+
+// Comments are sorted rather than listed in submission order so they
+// cannot be matched to evaluators by timing
+function anonymize(comments: (string | null)[]): string[] {
+  return comments.flatMap((comment) => comment?.trim() ? [comment.trim()] : []).sort();
+}
+
+// Every released session of the given teams, newest first. Sessions whose
+// feedback has not been published are left out entirely, scores included.
+export async function loadPublishedFeedback(teams: Team[]): Promise<PublishedTeamFeedback[]> {
+  const results: PublishedTeamFeedback[] = [];
+
+  for (const team of teams) {
+    const { sessions } = await storage.getPresentationSessions({ teamId: team.id, completed: true });
+
+    for (const session of sessions) {
+      const feedback = await storage.getAIFeedbackBySessionId(session.id);
+      if (!feedback || feedback.publishedVersion === null || !feedback.publishedAt) continue;
+
+      const published = await storage.getAIFeedbackVersion(session.id, feedback.publishedVersion);
+      const rubric = await storage.getRubric(session.rubricId);
+      if (!published || !rubric) continue;
+
+      const evaluations = await storage.getEvaluationsBySessionId(session.id);
+
+      results.push({
+        sessionId: session.id,
+        presentedAt: session.startTime,
+        team: { id: team.id, name: team.name, projectTitle: team.projectTitle },
+        criteria: rubric.criteria,
+        averages: calculateAverages(rubric.criteria, evaluations),
+        evaluatorCount: evaluations.length,
+        summary: {
+          strengths: published.strengths,
+          improvements: published.improvements,
+          provider: published.provider,
+          publishedAt: feedback.publishedAt
+        },
+        comments: {
+          positive: anonymize(evaluations.map((evaluation) => evaluation.positivePoints)),
+          negative: anonymize(evaluations.map((evaluation) => evaluation.negativePoints))
+        }
+      });
+    }
+  }
+
+  return results.sort((a, b) => b.presentedAt.getTime() - a.presentedAt.getTime());
+}
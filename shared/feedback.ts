@@ -0,0 +1,22 @@
+// How to label a summary for readers. Only the LLM providers write new text;
+// the others quote or template what evaluators entered, and must not be
+// passed off as AI feedback.
+export function describeFeedbackSource(provider: string): { title: string; description: string } {
+  switch (provider) {
+    case "extractive":
+      return {
+        title: "Extractive Feedback Summary",
+        description: "Representative sentences from peer comments, with how many evaluators made each point",
+      };
+    case "offline":
+      return {
+        title: "Rule-Based Feedback Summary",
+        description: "Generated from the criterion averages",
+      };
+    default:
+      return {
+        title: "AI-Generated Feedback Summary",
+        description: "Synthesized feedback based on peer evaluations",
+      };
+  }
+}
@@ -0,0 +1,318 @@
+import { createSelectSchema } from "drizzle-zod";
+import { z } from "zod";
+import {
+  rooms,
+  teams,
+  rubrics,
+  presentationSessions,
+  evaluations,
+  aiFeedback,
+  feedbackJobs,
+  FEEDBACK_JOB_STATUSES,
+  rubricCriterionSchema,
+  sessionEventSchema,
+  joinRoomSchema,
+} from "./schema";
+
+// WebSocket protocol between the browser and /ws. Every frame is JSON of
+// the form { type, payload? } and is validated against these unions on
+// arrival, on both sides.
+
+// Timestamps travel as ISO strings and are turned back into Dates
+const timestamp = z.coerce.date();
+
+export const roomSchema = createSelectSchema(rooms, {
+  createdAt: timestamp,
+});
+
+export const teamSchema = createSelectSchema(teams, {
+  members: z.array(z.object({ name: z.string(), usn: z.string() })),
+});
+
+export const rubricSchema = createSelectSchema(rubrics, {
+  criteria: z.array(rubricCriterionSchema),
+  createdAt: timestamp,
+});
+
+export const presentationSessionSchema = createSelectSchema(presentationSessions, {
+  startTime: timestamp,
+  endTime: timestamp.nullable(),
+  timerStartedAt: timestamp.nullable(),
+  events: z.array(sessionEventSchema),
+});
+
+export const evaluationSchema = createSelectSchema(evaluations, {
+  scores: z.record(z.number()),
+  submittedAt: timestamp,
+});
+
+export const aiFeedbackSchema = createSelectSchema(aiFeedback, {
+  strengths: z.array(z.string()),
+  improvements: z.array(z.string()),
+  generatedAt: timestamp,
+});
+
+export const feedbackJobSchema = createSelectSchema(feedbackJobs, {
+  status: z.enum(FEEDBACK_JOB_STATUSES),
+  runAt: timestamp,
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+
+// The generated summary pushed live when a presentation ends
+export const feedbackSummarySchema = z.object({
+  strengths: z.array(z.string()),
+  improvements: z.array(z.string()),
+  overallScore: z.number(),
+  provider: z.string(),
+  model: z.string(),
+});
+
+export const averageScoresSchema = z.object({
+  criteria: z.record(z.number()),
+  overall: z.number(),
+});
+
+// WebRTC signaling, as produced by RTCSessionDescription/RTCIceCandidate.toJSON()
+const sessionDescriptionSchema = z.object({
+  type: z.enum(["offer", "answer", "pranswer", "rollback"]),
+  sdp: z.string().optional(),
+});
+
+const iceCandidateSchema = z.object({
+  candidate: z.string(),
+  sdpMid: z.string().nullable().optional(),
+  sdpMLineIndex: z.number().nullable().optional(),
+  usernameFragment: z.string().nullable().optional(),
+});
+
+// Screen share signaling is point to point: the sharer holds one peer
+// connection per viewer, so every frame names the other end by the client
+// id the server gave its socket. Clients address frames with "to" and
+// receive them with "from".
+const clientIdSchema = z.string().min(1);
+
+// Screen share rights an admin granted for the current session, to a member
+// of the presenting team or to a presenter device. The device's login token
+// is only sent to admins.
+export const shareGrantSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("member"),
+    userId: z.number(),
+    name: z.string(),
+    usn: z.string(),
+  }),
+  z.object({
+    kind: z.literal("device"),
+    userId: z.number(),
+    token: z.string().optional(),
+  }),
+]);
+
+// ===== Client -> server =====
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("get_state") }),
+  z.object({ type: z.literal("join_room"), payload: joinRoomSchema }),
+  z.object({ type: z.literal("leave_room") }),
+  z.object({
+    type: z.literal("start_presentation"),
+    payload: z.object({
+      teamId: z.number().int().positive(),
+      rubricId: z.number().int().positive().optional(),
+    }),
+  }),
+  z.object({ type: z.literal("end_presentation") }),
+  z.object({
+    type: z.literal("submit_evaluation"),
+    // Checked against the session's rubric once the server knows which one applies
+    payload: z.object({
+      scores: z.record(z.number()),
+      positivePoints: z.string().optional(),
+      negativePoints: z.string().optional(),
+    }),
+  }),
+  z.object({ type: z.literal("start_evaluation") }),
+  z.object({ type: z.literal("timer_start") }),
+  z.object({ type: z.literal("timer_pause") }),
+  z.object({ type: z.literal("timer_reset") }),
+  z.object({ type: z.literal("screen_share_start") }),
+  z.object({ type: z.literal("screen_share_stop") }),
+  // A viewer asking the current sharer for an offer, e.g. after joining late
+  z.object({ type: z.literal("screen_share_request") }),
+  // The sharer turning its camera and microphone on or off
+  z.object({
+    type: z.literal("screen_share_camera"),
+    payload: z.object({ enabled: z.boolean() }),
+  }),
+  z.object({
+    type: z.literal("grant_screen_share"),
+    payload: z.discriminatedUnion("kind", [
+      z.object({ kind: z.literal("member"), usn: z.string().trim().min(1) }),
+      z.object({ kind: z.literal("device") }),
+    ]),
+  }),
+  z.object({ type: z.literal("revoke_screen_share") }),
+  z.object({
+    type: z.literal("offer"),
+    payload: z.object({ to: clientIdSchema, sdp: sessionDescriptionSchema }),
+  }),
+  z.object({
+    type: z.literal("answer"),
+    payload: z.object({ to: clientIdSchema, sdp: sessionDescriptionSchema }),
+  }),
+  z.object({
+    type: z.literal("ice_candidate"),
+    payload: z.object({ to: clientIdSchema, candidate: iceCandidateSchema }),
+  }),
+]);
+
+// ===== Server -> client =====
+
+export const wsErrorCodeSchema = z.enum([
+  "invalid_message", // the frame was not valid JSON or did not match the protocol
+  "forbidden", // the user's role may not do this
+  "not_found", // a referenced room, team or rubric does not exist
+  "invalid_state", // not possible right now, e.g. no room joined or no active session
+]);
+
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("room_update"),
+    payload: z.object({ room: roomSchema.nullable() }),
+  }),
+  z.object({
+    type: z.literal("session_update"),
+    payload: z.object({
+      session: presentationSessionSchema,
+      team: teamSchema,
+      rubric: rubricSchema,
+      allowSelfAssessment: z.boolean(),
+    }),
+  }),
+  z.object({ type: z.literal("session_end") }),
+  z.object({
+    type: z.literal("evaluation_update"),
+    payload: z.object({
+      evaluations: z.array(evaluationSchema),
+      averages: averageScoresSchema,
+    }),
+  }),
+  z.object({
+    type: z.literal("evaluation_submitted"),
+    payload: z.object({
+      success: z.boolean(),
+      isSelfAssessment: z.boolean().optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal("feedback_update"),
+    payload: z.object({ sessionId: z.number(), feedback: feedbackSummarySchema }),
+  }),
+  // Sent to admins whenever a feedback generation job changes state
+  z.object({
+    type: z.literal("feedback_job_update"),
+    payload: z.object({ job: feedbackJobSchema }),
+  }),
+  z.object({
+    type: z.literal("peers_update"),
+    payload: z.object({
+      peers: z.array(z.object({ id: z.number(), name: z.string() })),
+    }),
+  }),
+  z.object({
+    type: z.literal("timer_update"),
+    payload: z.object({ seconds: z.number(), isRunning: z.boolean() }),
+  }),
+  z.object({ type: z.literal("screen_share_start") }),
+  // To the sharer: its screen_share_start was accepted
+  z.object({ type: z.literal("screen_share_started") }),
+  z.object({ type: z.literal("screen_share_stop") }),
+  // To the sharer: a viewer wants a connection, or no longer needs one
+  z.object({
+    type: z.literal("screen_share_request"),
+    payload: z.object({ from: clientIdSchema }),
+  }),
+  z.object({
+    type: z.literal("screen_share_viewer_left"),
+    payload: z.object({ clientId: clientIdSchema }),
+  }),
+  // Whether the sharer's camera is sending, so viewers know to show it
+  z.object({
+    type: z.literal("screen_share_camera"),
+    payload: z.object({ enabled: z.boolean() }),
+  }),
+  z.object({
+    type: z.literal("screen_share_grant"),
+    payload: z.object({ grant: shareGrantSchema.nullable() }),
+  }),
+  z.object({
+    type: z.literal("start_evaluation"),
+    payload: z.object({
+      teamId: z.number(),
+      teamName: z.string(),
+      projectTitle: z.string(),
+    }),
+  }),
+  z.object({
+    type: z.literal("offer"),
+    payload: z.object({ from: clientIdSchema, sdp: sessionDescriptionSchema }),
+  }),
+  z.object({
+    type: z.literal("answer"),
+    payload: z.object({ from: clientIdSchema, sdp: sessionDescriptionSchema }),
+  }),
+  z.object({
+    type: z.literal("ice_candidate"),
+    payload: z.object({ from: clientIdSchema, candidate: iceCandidateSchema }),
+  }),
+  z.object({
+    type: z.literal("error"),
+    payload: z.object({
+      message: z.string(),
+      code: wsErrorCodeSchema,
+      // Which inbound message type was rejected, when known
+      requestType: z.string().optional(),
+    }),
+  }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type WSErrorCode = z.infer<typeof wsErrorCodeSchema>;
+export type FeedbackSummary = z.infer<typeof feedbackSummarySchema>;
+export type ShareGrant = z.infer<typeof shareGrantSchema>;
+
+// The message of a given type, e.g. ServerMessageOf<"timer_update">
+export type ClientMessageOf<T extends ClientMessage["type"]> = Extract<ClientMessage, { type: T }>;
+export type ServerMessageOf<T extends ServerMessage["type"]> = Extract<ServerMessage, { type: T }>;
+
+type ParseResult<T> =
+  | { success: true; message: T }
+  | { success: false; error: string };
+
+function parseFrame<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, raw: string): ParseResult<T> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { success: false, error: "Message is not valid JSON" };
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    const path = issue.path.join(".");
+    return { success: false, error: path ? `${path}: ${issue.message}` : issue.message };
+  }
+
+  return { success: true, message: result.data };
+}
+
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  return parseFrame(clientMessageSchema, raw);
+}
+
+export function parseServerMessage(raw: string): ParseResult<ServerMessage> {
+  return parseFrame(serverMessageSchema, raw);
+}
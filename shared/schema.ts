@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { AverageScores } from "./scoring";
 
 // User schema for authentication
 export const users = pgTable("users", {
@@ -8,6 +9,8 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   isAdmin: boolean("is_admin").default(false),
+  // Disabled accounts can no longer log in and lose any open session
+  isDisabled: boolean("is_disabled").notNull().default(false),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -32,18 +35,109 @@ export const insertTeamSchema = createInsertSchema(teams).pick({
   createdBy: true,
 });
 
+// Rubric schema, the admin-defined criteria peers score a presentation on
+export type RubricCriterion = {
+  key: string;
+  label: string;
+  description?: string;
+  minScore: number;
+  maxScore: number;
+  weight: number;
+};
+
+export const rubrics = pgTable("rubrics", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  criteria: jsonb("criteria").notNull().$type<RubricCriterion[]>(),
+  isDefault: boolean("is_default").notNull().default(false),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+export const rubricCriterionSchema = z.object({
+  key: z.string().regex(/^[a-z][a-zA-Z0-9]*$/, "Criterion keys must be camelCase identifiers"),
+  label: z.string().min(1, "Criterion label is required"),
+  description: z.string().optional(),
+  minScore: z.number().int(),
+  maxScore: z.number().int(),
+  weight: z.number().positive("Weight must be greater than 0"),
+}).refine((criterion) => criterion.minScore < criterion.maxScore, {
+  message: "Maximum score must be greater than minimum score",
+  path: ["maxScore"],
+});
+
+export const insertRubricSchema = createInsertSchema(rubrics, {
+  criteria: z.array(rubricCriterionSchema)
+    .min(1, "A rubric needs at least one criterion")
+    .refine(
+      (criteria) => new Set(criteria.map((c) => c.key)).size === criteria.length,
+      "Criterion keys must be unique",
+    ),
+}).pick({
+  name: true,
+  criteria: true,
+  isDefault: true,
+  createdBy: true,
+  createdAt: true,
+});
+
+// Room schema, one per parallel presentation track
+export const rooms = pgTable("rooms", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  name: text("name").notNull(),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").notNull(),
+});
+
+export const insertRoomSchema = createInsertSchema(rooms).pick({
+  code: true,
+  name: true,
+  createdBy: true,
+  createdAt: true,
+});
+
+// Moments in a session worth finding again, e.g. on its recordings
+export const SESSION_EVENT_TYPES = ["timer_start", "timer_pause", "timer_reset", "evaluation_start"] as const;
+export type SessionEventType = typeof SESSION_EVENT_TYPES[number];
+
+export type SessionEvent = {
+  type: SessionEventType;
+  // ISO timestamp
+  at: string;
+  // Timer reading at that moment
+  timerSeconds: number;
+};
+
+export const sessionEventSchema = z.object({
+  type: z.enum(SESSION_EVENT_TYPES),
+  at: z.string(),
+  timerSeconds: z.number(),
+});
+
 // Presentation session schema
 export const presentationSessions = pgTable("presentation_sessions", {
   id: serial("id").primaryKey(),
+  roomId: integer("room_id").notNull(),
   teamId: integer("team_id").notNull(),
+  rubricId: integer("rubric_id").notNull(),
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time"),
   isActive: boolean("is_active").default(true),
   createdBy: integer("created_by").notNull(),
+  // Live timer state, persisted so a restarted server can resume it.
+  // timerSeconds is the elapsed time banked at the last pause; while the
+  // timer runs, timerStartedAt marks when counting resumed.
+  timerSeconds: integer("timer_seconds").notNull().default(0),
+  timerStartedAt: timestamp("timer_started_at"),
+  // Timer and phase changes, oldest first
+  events: jsonb("events").notNull().$type<SessionEvent[]>().default([]),
 });
 
 export const insertPresentationSessionSchema = createInsertSchema(presentationSessions).pick({
+  roomId: true,
   teamId: true,
+  rubricId: true,
   startTime: true,
   isActive: true,
   createdBy: true,
@@ -54,23 +148,25 @@ export const evaluations = pgTable("evaluations", {
   id: serial("id").primaryKey(),
   sessionId: integer("session_id").notNull(),
   peerId: integer("peer_id").notNull(),
-  technicalContent: integer("technical_content").notNull(),
-  presentationSkills: integer("presentation_skills").notNull(),
-  projectDemo: integer("project_demo").notNull(),
+  // Score per rubric criterion, keyed by RubricCriterion.key
+  scores: jsonb("scores").notNull().$type<Record<string, number>>(),
   positivePoints: text("positive_points"),
   negativePoints: text("negative_points"),
   submittedAt: timestamp("submitted_at").notNull(),
+  // A presenting member rating their own team; never counted with peer scores
+  isSelfAssessment: boolean("is_self_assessment").notNull().default(false),
 });
 
-export const insertEvaluationSchema = createInsertSchema(evaluations).pick({
+export const insertEvaluationSchema = createInsertSchema(evaluations, {
+  scores: z.record(z.number()),
+}).pick({
   sessionId: true,
   peerId: true,
-  technicalContent: true,
-  presentationSkills: true,
-  projectDemo: true,
+  scores: true,
   positivePoints: true,
   negativePoints: true,
   submittedAt: true,
+  isSelfAssessment: true,
 });
 
 // AI Feedback schema
@@ -81,14 +177,140 @@ export const aiFeedback = pgTable("ai_feedback", {
   improvements: jsonb("improvements").notNull().$type<string[]>(),
   overallScore: integer("overall_score").notNull(),
   generatedAt: timestamp("generated_at").notNull(),
+  // What produced the summary, e.g. "openai" / "gpt-4o"; rows from before
+  // this was recorded read "unknown"
+  provider: text("provider").notNull().default("unknown"),
+  model: text("model").notNull().default("unknown"),
+  // Current version; each generation and admin edit adds one, see
+  // aiFeedbackVersions
+  version: integer("version").notNull().default(1),
+  // Admin who last edited the text, null while it is as generated
+  editedBy: integer("edited_by"),
+  // Version approved for the presenting team, null until published
+  publishedVersion: integer("published_version"),
+  publishedAt: timestamp("published_at"),
+  publishedBy: integer("published_by"),
 });
 
-export const insertAiFeedbackSchema = createInsertSchema(aiFeedback).pick({
+export const insertAiFeedbackSchema = createInsertSchema(aiFeedback, {
+  provider: z.string(),
+  model: z.string(),
+}).pick({
   sessionId: true,
   strengths: true,
   improvements: true,
   overallScore: true,
   generatedAt: true,
+  provider: true,
+  model: true,
+  version: true,
+  editedBy: true,
+});
+
+// Every generated or edited revision of a session's feedback
+export const aiFeedbackVersions = pgTable("ai_feedback_versions", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  version: integer("version").notNull(),
+  strengths: jsonb("strengths").notNull().$type<string[]>(),
+  improvements: jsonb("improvements").notNull().$type<string[]>(),
+  // Provider and model of the generation the text started from
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  // Admin who wrote this version, null for generated ones
+  authorId: integer("author_id"),
+  createdAt: timestamp("created_at").notNull(),
+}, (table) => [unique().on(table.sessionId, table.version)]);
+
+export const insertAiFeedbackVersionSchema = createInsertSchema(aiFeedbackVersions).pick({
+  sessionId: true,
+  version: true,
+  strengths: true,
+  improvements: true,
+  provider: true,
+  model: true,
+  authorId: true,
+  createdAt: true,
+});
+
+// An admin's edit of the strengths and improvements. baseVersion is the
+// version the edit started from, so concurrent changes are not overwritten.
+const feedbackPointsSchema = z
+  .array(z.string().trim().min(1, "Feedback points cannot be empty").max(1000, "Feedback points must be at most 1000 characters"))
+  .max(20, "At most 20 points per list");
+
+export const feedbackEditSchema = z.object({
+  baseVersion: z.number().int().positive(),
+  strengths: feedbackPointsSchema,
+  improvements: feedbackPointsSchema,
+});
+
+export const feedbackPublishSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+export const FEEDBACK_JOB_STATUSES = ["queued", "running", "failed", "done"] as const;
+export type FeedbackJobStatus = typeof FEEDBACK_JOB_STATUSES[number];
+
+// Background feedback generation, one row per request to (re)generate a
+// session's summary. Workers claim queued jobs whose runAt has passed.
+export const feedbackJobs = pgTable("feedback_jobs", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  status: text("status").notNull().$type<FeedbackJobStatus>(),
+  attempts: integer("attempts").notNull().default(0),
+  // Earliest time the job may run; pushed back after each failed attempt
+  runAt: timestamp("run_at").notNull(),
+  lastError: text("last_error"),
+  // Admin who asked for a regeneration; null when queued as a session ended
+  requestedBy: integer("requested_by"),
+  createdAt: timestamp("created_at").notNull(),
+  updatedAt: timestamp("updated_at").notNull(),
+});
+
+export const insertFeedbackJobSchema = createInsertSchema(feedbackJobs, {
+  status: z.enum(FEEDBACK_JOB_STATUSES),
+}).pick({
+  sessionId: true,
+  status: true,
+  runAt: true,
+  requestedBy: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Screen share recordings. The video itself is stored on disk under the
+// recordings directory; chunks are appended in order as they are uploaded.
+export const sessionRecordings = pgTable("session_recordings", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  // User whose screen was recorded
+  recordedBy: integer("recorded_by").notNull(),
+  mimeType: text("mime_type").notNull(),
+  // Path relative to the recordings directory
+  fileName: text("file_name").notNull(),
+  chunkCount: integer("chunk_count").notNull().default(0),
+  sizeBytes: integer("size_bytes").notNull().default(0),
+  startedAt: timestamp("started_at").notNull(),
+  // Set when the recorder stops; null while recording, or if the upload was cut off
+  endedAt: timestamp("ended_at"),
+});
+
+export const insertSessionRecordingSchema = createInsertSchema(sessionRecordings).pick({
+  sessionId: true,
+  recordedBy: true,
+  mimeType: true,
+  fileName: true,
+  startedAt: true,
+});
+
+// Container formats MediaRecorder produces in current browsers
+export const startRecordingSchema = z.object({
+  mimeType: z
+    .string()
+    .trim()
+    .regex(/^video\/(webm|mp4)(;.*)?$/, "Recordings must be WebM or MP4 video")
+    .max(200),
 });
 
 // Peer schema for non-admin users
@@ -105,6 +327,81 @@ export const insertPeerSchema = createInsertSchema(peers).pick({
   userId: true,
 });
 
+// Roster schema, the students allowed to log in as peers
+export const rosterStudents = pgTable("roster_students", {
+  id: serial("id").primaryKey(),
+  usn: text("usn").notNull().unique(),
+  name: text("name").notNull(),
+});
+
+export const insertRosterStudentSchema = createInsertSchema(rosterStudents, {
+  usn: z.string().trim().min(1, "USN is required").transform((usn) => normalizeUsn(usn)),
+  name: z.string().trim().min(1, "Name is required"),
+}).pick({
+  usn: true,
+  name: true,
+});
+
+// Event-wide settings, one row per key
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+});
+
+// Student grade = (presentationWeight × team score / 10 + participationWeight
+// × share of sessions evaluated) / (sum of weights) × maxGrade
+export type GradeFormula = {
+  presentationWeight: number;
+  participationWeight: number;
+  maxGrade: number;
+};
+
+// One grade column of an LMS gradebook export. The source is the student's
+// grade from the grade formula, their team's weighted overall score, or their
+// team's average on one criterion ("criterion:<key>"), scaled to maxPoints.
+export type GradebookColumn = {
+  name: string;
+  source: "grade" | "overall" | `criterion:${string}`;
+  maxPoints: number;
+};
+
+// How leaderboard teams with the same displayed overall score are ordered:
+// more evaluators first, the higher confidence-interval lower bound first,
+// or the higher average on one criterion ("criterion:<key>")
+export type LeaderboardTieBreak = "evaluatorCount" | "lowerBound" | `criterion:${string}`;
+
+export type EventSettings = {
+  // PIN peers must enter at login, or null when login needs no PIN
+  joinPin: string | null;
+  // Whether presenting team members may rate their own presentation
+  allowSelfAssessment: boolean;
+  // Whether the leaderboard is shown to non-admins and on the projector view
+  leaderboardVisible: boolean;
+  leaderboardTieBreak: LeaderboardTieBreak;
+  gradeFormula: GradeFormula;
+  gradebookColumns: GradebookColumn[];
+};
+
+export const DEFAULT_EVENT_SETTINGS: EventSettings = {
+  joinPin: null,
+  allowSelfAssessment: false,
+  leaderboardVisible: false,
+  leaderboardTieBreak: "evaluatorCount",
+  gradeFormula: {
+    presentationWeight: 70,
+    participationWeight: 30,
+    maxGrade: 100,
+  },
+  gradebookColumns: [
+    { name: "Peer Evaluation", source: "grade", maxPoints: 100 },
+  ],
+};
+
+// USNs are compared case-insensitively and without surrounding whitespace
+export function normalizeUsn(usn: string): string {
+  return usn.trim().toUpperCase();
+}
+
 // Type definitions
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -112,6 +409,12 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Team = typeof teams.$inferSelect;
 export type InsertTeam = z.infer<typeof insertTeamSchema>;
 
+export type Rubric = typeof rubrics.$inferSelect;
+export type InsertRubric = z.infer<typeof insertRubricSchema>;
+
+export type Room = typeof rooms.$inferSelect;
+export type InsertRoom = z.infer<typeof insertRoomSchema>;
+
 export type PresentationSession = typeof presentationSessions.$inferSelect;
 export type InsertPresentationSession = z.infer<typeof insertPresentationSessionSchema>;
 
@@ -121,33 +424,246 @@ export type InsertEvaluation = z.infer<typeof insertEvaluationSchema>;
 export type AIFeedback = typeof aiFeedback.$inferSelect;
 export type InsertAIFeedback = z.infer<typeof insertAiFeedbackSchema>;
 
+export type AIFeedbackVersion = typeof aiFeedbackVersions.$inferSelect;
+export type InsertAIFeedbackVersion = z.infer<typeof insertAiFeedbackVersionSchema>;
+export type FeedbackEdit = z.infer<typeof feedbackEditSchema>;
+
+export type FeedbackJob = typeof feedbackJobs.$inferSelect;
+export type InsertFeedbackJob = z.infer<typeof insertFeedbackJobSchema>;
+
+export type SessionRecording = typeof sessionRecordings.$inferSelect;
+export type InsertSessionRecording = z.infer<typeof insertSessionRecordingSchema>;
+export type StartRecording = z.infer<typeof startRecordingSchema>;
+
 export type Peer = typeof peers.$inferSelect;
 export type InsertPeer = z.infer<typeof insertPeerSchema>;
 
+export type RosterStudent = typeof rosterStudents.$inferSelect;
+export type InsertRosterStudent = z.infer<typeof insertRosterStudentSchema>;
+
 // Additional validation schemas for client usage
 export const peerLoginSchema = z.object({
   name: z.string().min(1, "Name is required"),
   usn: z.string().min(1, "USN is required"),
+  pin: z.string().optional(),
+});
+
+// A presenter device logs in with the token from the link an admin created
+export const presenterLoginSchema = z.object({
+  token: z.string().min(1, "Presenter token is required"),
 });
 
 export const adminLoginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
 });
 
-export const evaluationFormSchema = z.object({
-  technicalContent: z.number().min(1).max(10),
-  presentationSkills: z.number().min(1).max(10), 
-  projectDemo: z.number().min(1).max(10),
-  positivePoints: z.string().optional(),
-  negativePoints: z.string().optional(),
+export const createAdminUserSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
 });
 
+export const updateAdminUserSchema = z.object({
+  isDisabled: z.boolean(),
+});
+
+export const resetPasswordSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export const rosterImportSchema = z.object({
+  students: z.array(insertRosterStudentSchema).min(1, "No students to import"),
+});
+
+export const leaderboardTieBreakSchema = z.custom<LeaderboardTieBreak>(
+  (value) => value === "evaluatorCount" || value === "lowerBound" ||
+    (typeof value === "string" && /^criterion:[a-z][a-zA-Z0-9]*$/.test(value)),
+  "Unknown tie-break rule",
+);
+
+export const gradeFormulaSchema = z.object({
+  presentationWeight: z.number().min(0, "Weights cannot be negative"),
+  participationWeight: z.number().min(0, "Weights cannot be negative"),
+  maxGrade: z.number().positive("The maximum grade must be positive"),
+}).refine(
+  (formula) => formula.presentationWeight + formula.participationWeight > 0,
+  "At least one weight must be above zero",
+);
+
+export const gradebookColumnSchema = z.object({
+  name: z.string().trim().min(1, "Every grade column needs a name"),
+  source: z.custom<GradebookColumn["source"]>(
+    (value) => value === "grade" || value === "overall" ||
+      (typeof value === "string" && /^criterion:[a-z][a-zA-Z0-9]*$/.test(value)),
+    "Unknown grade column source",
+  ),
+  maxPoints: z.number().positive("Maximum points must be positive"),
+});
+
+export const gradebookFormatSchema = z.enum(["moodle", "canvas"]);
+
+export const eventSettingsSchema = z.object({
+  joinPin: z.string().trim().regex(/^\d{4,8}$/, "The join PIN must be 4 to 8 digits").nullable(),
+  allowSelfAssessment: z.boolean(),
+  leaderboardVisible: z.boolean(),
+  leaderboardTieBreak: leaderboardTieBreakSchema,
+  gradeFormula: gradeFormulaSchema,
+  gradebookColumns: z.array(gradebookColumnSchema)
+    .min(1, "Add at least one grade column")
+    .refine(
+      (columns) => new Set(columns.map((column) => column.name)).size === columns.length,
+      "Grade column names must be unique",
+    ),
+}).partial();
+
+export const createRoomSchema = z.object({
+  name: z.string().min(1, "Room name is required"),
+});
+
+export const joinRoomSchema = z.object({
+  code: z.string().trim().min(1, "Room code is required").transform((code) => code.toUpperCase()),
+});
+
+export const rubricFormSchema = z.object({
+  name: z.string().min(1, "Rubric name is required"),
+  criteria: insertRubricSchema.shape.criteria,
+  isDefault: z.boolean().optional(),
+});
+
+// Date-only bounds cover the whole day, so ?to=2024-03-01 includes that day
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const sessionHistoryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  teamId: z.coerce.number().int().positive().optional(),
+  // History lists finished sessions unless running ones are asked for too
+  completed: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+  from: z.coerce.date({ errorMap: () => ({ message: "Invalid from date" }) }).optional(),
+  to: z.string().optional().transform((value, ctx) => {
+    if (value === undefined) return undefined;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid to date" });
+      return z.NEVER;
+    }
+    if (DATE_ONLY.test(value)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCMilliseconds(-1);
+    }
+    return date;
+  }),
+});
+
+// The evaluation form is generated from the rubric of the session being scored
+export function buildEvaluationFormSchema(criteria: RubricCriterion[]) {
+  return z.object({
+    scores: z.object(
+      Object.fromEntries(
+        criteria.map((criterion) => [
+          criterion.key,
+          z.number({ required_error: `${criterion.label} is required` })
+            .int()
+            .min(criterion.minScore, `${criterion.label} must be at least ${criterion.minScore}`)
+            .max(criterion.maxScore, `${criterion.label} must be at most ${criterion.maxScore}`),
+        ]),
+      ),
+    ).strict(),
+    positivePoints: z.string().optional(),
+    negativePoints: z.string().optional(),
+  });
+}
+
 export type PeerLogin = z.infer<typeof peerLoginSchema>;
 export type AdminLogin = z.infer<typeof adminLoginSchema>;
-export type EvaluationForm = z.infer<typeof evaluationFormSchema>;
+export type PresenterLogin = z.infer<typeof presenterLoginSchema>;
+export type CreateAdminUser = z.infer<typeof createAdminUserSchema>;
+export type EvaluationForm = {
+  scores: Record<string, number>;
+  positivePoints?: string;
+  negativePoints?: string;
+};
+export type RubricForm = z.infer<typeof rubricFormSchema>;
+export type SessionHistoryQuery = z.infer<typeof sessionHistoryQuerySchema>;
+export type GradebookFormat = z.infer<typeof gradebookFormatSchema>;
+export type CreateRoom = z.infer<typeof createRoomSchema>;
+export type JoinRoom = z.infer<typeof joinRoomSchema>;
+
+// Session history as returned by the admin /api/sessions routes
+export type SessionSummary = PresentationSession & {
+  team: Team | null;
+  room: Pick<Room, "id" | "code" | "name"> | null;
+  evaluationCount: number;
+  overallAverage: number | null;
+};
+
+export type SessionHistoryPage = {
+  sessions: SessionSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+export type EvaluationWithPeer = Evaluation & {
+  peer: Pick<Peer, "id" | "name" | "usn"> | null;
+};
+
+export type SessionDetail = {
+  session: PresentationSession;
+  team: Team | null;
+  room: Pick<Room, "id" | "code" | "name"> | null;
+  rubric: Rubric | null;
+  evaluations: EvaluationWithPeer[];
+  selfAssessments: EvaluationWithPeer[];
+  averages: AverageScores | null;
+  feedback: AIFeedback | null;
+  // Most recent generation job, to show progress or why it failed
+  feedbackJob: FeedbackJob | null;
+  // Oldest first
+  recordings: SessionRecording[];
+};
+
+export type AIFeedbackVersionWithAuthor = AIFeedbackVersion & {
+  author: Pick<User, "id" | "username"> | null;
+};
+
+// Feedback an admin has released to a presenting team, as its members see
+// it. The summary is the published version even if it has been edited since.
+export type PublishedTeamFeedback = {
+  sessionId: number;
+  presentedAt: Date;
+  team: Pick<Team, "id" | "name" | "projectTitle">;
+  criteria: RubricCriterion[];
+  averages: AverageScores;
+  evaluatorCount: number;
+  summary: {
+    strengths: string[];
+    improvements: string[];
+    provider: string;
+    publishedAt: Date;
+  };
+  // Anonymized: sorted, without evaluator or submission order
+  comments: {
+    positive: string[];
+    negative: string[];
+  };
+};
+
+// ICE servers for WebRTC, as served by /api/rtc-config. TURN entries carry
+// credentials that stop working at expiresAt; it is null without TURN.
+export type RtcIceServer = {
+  urls: string[];
+  username?: string;
+  credential?: string;
+};
+
+export type RtcConfig = {
+  iceServers: RtcIceServer[];
+  expiresAt: Date | null;
+};
 
-// WebSocket message types
-export type WSMessage = {
-  type: string;
-  payload: any;
+// A session's feedback with its history, newest version first, for review
+export type FeedbackReview = {
+  feedback: AIFeedback;
+  versions: AIFeedbackVersionWithAuthor[];
 };
@@ -0,0 +1,169 @@
+import type { Evaluation, GradeFormula, LeaderboardTieBreak, RubricCriterion } from "./schema";
+
+// The criteria every deployment starts with, matching the original form
+export const DEFAULT_RUBRIC_CRITERIA: RubricCriterion[] = [
+  { key: "technicalContent", label: "Technical Content", minScore: 1, maxScore: 10, weight: 1 },
+  { key: "presentationSkills", label: "Presentation Skills", minScore: 1, maxScore: 10, weight: 1 },
+  { key: "projectDemo", label: "Project Demo", minScore: 1, maxScore: 10, weight: 1 },
+];
+
+export type AverageScores = {
+  // Mean raw score per criterion key, on that criterion's own scale
+  criteria: Record<string, number>;
+  // Weighted overall score out of 10
+  overall: number;
+};
+
+// Weighted overall score out of 10 for one set of criterion scores.
+// Each criterion is taken as a fraction of its scale, from 0 at its minimum
+// to 1 at its maximum, so criteria on different scales can be combined.
+export function weightedOverall(criteria: RubricCriterion[], scores: Record<string, number>): number {
+  let weighted = 0;
+  let totalWeight = 0;
+
+  for (const criterion of criteria) {
+    const score = scores[criterion.key];
+    if (typeof score !== "number") continue;
+
+    const fraction = (score - criterion.minScore) / (criterion.maxScore - criterion.minScore);
+    weighted += fraction * criterion.weight;
+    totalWeight += criterion.weight;
+  }
+
+  return totalWeight > 0 ? (weighted / totalWeight) * 10 : 0;
+}
+
+export function calculateAverages(criteria: RubricCriterion[], evaluations: Evaluation[]): AverageScores {
+  const averages: Record<string, number> = {};
+
+  for (const criterion of criteria) {
+    const scores = evaluations
+      .map((evaluation) => evaluation.scores[criterion.key])
+      .filter((score): score is number => typeof score === "number");
+
+    averages[criterion.key] = scores.length > 0
+      ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+      : 0;
+  }
+
+  return {
+    criteria: averages,
+    overall: evaluations.length > 0 ? weightedOverall(criteria, averages) : 0,
+  };
+}
+
+export function formatScaleRange(criterion: RubricCriterion): string {
+  return `${criterion.minScore}-${criterion.maxScore}`;
+}
+
+// Two-sided 95% critical values of Student's t for 1-30 degrees of freedom
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+export type ConfidenceInterval = { lower: number; upper: number };
+
+// 95% confidence interval for the mean of `values`, or null with fewer
+// than two values. Bounds are clamped to the 0-10 score range.
+export function confidenceInterval95(values: number[]): ConfidenceInterval | null {
+  const n = values.length;
+  if (n < 2) return null;
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1);
+  const t = T_CRITICAL_95[n - 2] ?? 1.96;
+  const margin = t * Math.sqrt(variance / n);
+
+  return {
+    lower: Math.max(0, mean - margin),
+    upper: Math.min(10, mean + margin),
+  };
+}
+
+export type LeaderboardEntry = {
+  // Teams still tied after the tie-break share a rank
+  rank: number;
+  teamId: number;
+  teamName: string;
+  projectTitle: string;
+  sessionId: number;
+  overall: number;
+  criteria: Record<string, number>;
+  // Scale of each criterion on the rubric this team was scored with
+  scales: Record<string, Pick<RubricCriterion, "minScore" | "maxScore">>;
+  evaluatorCount: number;
+  confidenceInterval: ConfidenceInterval | null;
+};
+
+export type Leaderboard = {
+  visible: boolean;
+  tieBreak: LeaderboardTieBreak;
+  // Column headings, in rubric order, across every ranked session. Rubrics
+  // may share a key on different scales; see each entry's scales.
+  criteria: Pick<RubricCriterion, "key" | "label">[];
+  entries: LeaderboardEntry[];
+};
+
+// Overall scores are compared as displayed, to one decimal place
+const displayed = (score: number) => Math.round(score * 10);
+
+function tieBreakValue(entry: Omit<LeaderboardEntry, "rank">, tieBreak: LeaderboardTieBreak): number {
+  if (tieBreak === "evaluatorCount") return entry.evaluatorCount;
+  if (tieBreak === "lowerBound") return entry.confidenceInterval?.lower ?? 0;
+  return entry.criteria[tieBreak.slice("criterion:".length)] ?? 0;
+}
+
+export function rankLeaderboard(
+  entries: Omit<LeaderboardEntry, "rank">[],
+  tieBreak: LeaderboardTieBreak
+): LeaderboardEntry[] {
+  const compare = (a: Omit<LeaderboardEntry, "rank">, b: Omit<LeaderboardEntry, "rank">) =>
+    displayed(b.overall) - displayed(a.overall) ||
+    tieBreakValue(b, tieBreak) - tieBreakValue(a, tieBreak);
+
+  const sorted = [...entries].sort((a, b) => compare(a, b) || a.teamName.localeCompare(b.teamName));
+
+  return sorted.map((entry, index) => {
+    let rank = index + 1;
+    // Share the rank of the first team this one is still tied with
+    while (rank > 1 && compare(sorted[rank - 2], entry) === 0) rank--;
+    return { ...entry, rank };
+  });
+}
+
+export type StudentGrade = {
+  usn: string;
+  name: string;
+  teamId: number | null;
+  teamName: string | null;
+  // The team's leaderboard overall score out of 10, null until it has presented
+  teamScore: number | null;
+  // Completed sessions of other teams the student rated or failed to rate
+  sessionsEvaluated: number;
+  sessionsMissed: number;
+  participationRate: number;
+  grade: number | null;
+};
+
+export type GradeReport = {
+  formula: GradeFormula;
+  students: StudentGrade[];
+};
+
+// Null when the presentation part of the grade is still unknown
+export function calculateGrade(
+  formula: GradeFormula,
+  teamScore: number | null,
+  participationRate: number
+): number | null {
+  if (teamScore === null && formula.presentationWeight > 0) return null;
+
+  const totalWeight = formula.presentationWeight + formula.participationWeight;
+  const weighted =
+    formula.presentationWeight * ((teamScore ?? 0) / 10) +
+    formula.participationWeight * participationRate;
+
+  return (weighted / totalWeight) * formula.maxGrade;
+}